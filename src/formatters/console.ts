@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Console formatter
+ * @module ConsoleFormatter
+ * @description
+ * Renders entries as colored, human-readable lines with optional emoji,
+ * log type indicators and multi-line metadata.
+ */
+
+import { Formatter, FormatterOptions, LogEntry } from '../types';
+import { getColor, getSymbol } from '../utils/colors';
+import { formatLogLine } from '../utils/formatter';
+import { getSeverity } from '../utils/levels';
+
+/**
+ * Formatter producing the enhanced console output
+ * 
+ * @example
+ * ```typescript
+ * new ConsoleTransport({ formatter: new ConsoleFormatter({ colors: false, showEmoji: true }) })
+ * ```
+ */
+export class ConsoleFormatter implements Formatter {
+    private readonly options: FormatterOptions;
+
+    constructor(options: FormatterOptions = {}) {
+        this.options = {
+            colors: true,
+            showEmoji: false,
+            showLogType: true,
+            ...options
+        };
+    }
+
+    /**
+     * Formats an entry as a colored log line
+     * @param entry - Log entry to format
+     * @returns Formatted log line
+     */
+    public format(entry: LogEntry): string {
+        const { level, message, timestamp, name } = entry;
+        const { prefix, excludeMetadata = [] } = this.options;
+        const severity = getSeverity(level);
+        const logType = level !== severity ? level : undefined;
+
+        const levelColor = this.options.colors ? getColor(severity) : (text: string) => text;
+        const typeColor = this.options.colors ? getColor(level) : (text: string) => text;
+        const label = [name && `[${name}]`, prefix]
+            .filter(Boolean)
+            .join(' ');
+
+        let metadata = entry.metadata;
+        if (metadata && excludeMetadata.length > 0) {
+            metadata = { ...metadata };
+            excludeMetadata.forEach(key => delete metadata![key]);
+        }
+
+        return formatLogLine(
+            timestamp,
+            severity,
+            this.options.showLogType ? logType : undefined,
+            `${label ? `${label} ` : ''}${message}`,
+            levelColor,
+            typeColor,
+            !!this.options.showEmoji,
+            getSymbol(level),
+            metadata?.source,
+            metadata
+        );
+    }
+}
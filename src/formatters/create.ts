@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Built-in formatter factory
+ * @module CreateFormatter
+ * @description
+ * Creates the built-in formatters from logger settings, shared by the
+ * logger and by the worker thread used with `asyncLogging: 'worker'`.
+ */
+
+import { Formatter, LogFormat, LoggerOptions } from '../types';
+import { ConsoleFormatter } from './console';
+import { JsonFormatter } from './json';
+import { TextFormatter } from './text';
+
+/**
+ * Logger settings the built-in formatters are configured from
+ */
+export type FormatterSettings = Pick<Required<LoggerOptions>,
+    'colors' | 'showEmoji' | 'showLogType' | 'prefix' | 'prettyPrint' | 'indentation' | 'metadata'>;
+
+/**
+ * Creates a built-in formatter
+ *
+ * @param format - Built-in format
+ * @param settings - Logger settings
+ * @returns Formatter for the format
+ */
+export const createFormatter = (format: LogFormat, settings: FormatterSettings): Formatter => {
+    const { colors, showEmoji, showLogType, prefix, prettyPrint, indentation, metadata } = settings;
+
+    switch (format) {
+        case 'json':
+            return new JsonFormatter({ indentation: prettyPrint ? indentation : 0 });
+        case 'text':
+            return new TextFormatter({ showLogType, prefix });
+        default:
+            // Global metadata is repeated on every entry, so keep it out of the console
+            return new ConsoleFormatter({
+                colors,
+                showEmoji,
+                showLogType,
+                prefix,
+                excludeMetadata: Object.keys(metadata)
+            });
+    }
+};
@@ -0,0 +1,4 @@
+export { ConsoleFormatter } from './console';
+export { TextFormatter } from './text';
+export { JsonFormatter } from './json';
+export { createFormatter } from './create';
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview JSON formatter
+ * @module JsonFormatter
+ * @description
+ * Renders entries as single-line JSON objects (NDJSON) suitable for log
+ * aggregation systems, with metadata flattened into the top level.
+ */
+
+import { Formatter, FormatterOptions, LogEntry } from '../types';
+import { getSeverity } from '../utils/levels';
+import { safeStringify } from '../utils/serialize';
+
+/**
+ * Formatter producing one JSON object per entry
+ * 
+ * @example
+ * ```typescript
+ * new JsonFormatter().format(entry);
+ * // {"timestamp":"2023-12-25T12:00:00.000Z","level":"info","type":"database","message":"Query executed","rows":10}
+ * ```
+ */
+export class JsonFormatter implements Formatter {
+    private readonly options: FormatterOptions;
+
+    constructor(options: FormatterOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Formats an entry as JSON
+     * @param entry - Log entry to format
+     * @returns JSON string, on a single line unless `indentation` is set
+     */
+    public format(entry: LogEntry): string {
+        const { level, message, timestamp, name, template, correlationId, sequence, metadata } = entry;
+        const severity = getSeverity(level);
+
+        return safeStringify({
+            timestamp,
+            level: severity,
+            type: level !== severity ? level : undefined,
+            ...(name ? { logger: name } : {}),
+            ...(correlationId !== undefined ? { correlationId } : {}),
+            ...(sequence !== undefined ? { sequence } : {}),
+            message,
+            ...(template !== undefined ? { template } : {}),
+            ...metadata
+        }, this.options.indentation || 0);
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Text formatter
+ * @module TextFormatter
+ * @description
+ * Renders entries as plain single-line text without ANSI codes, appending
+ * metadata as logfmt-style `key=value` pairs.
+ */
+
+import { Formatter, FormatterOptions, LogEntry } from '../types';
+import { getSeverity } from '../utils/levels';
+import { safeStringify } from '../utils/serialize';
+
+/**
+ * Formats a metadata value for logfmt output, quoting it when needed
+ * @private
+ * @param value - Metadata value
+ * @returns Value safe to place after `key=`
+ */
+const formatLogfmtValue = (value: any): string => {
+    if (value === null || value === undefined) return String(value);
+
+    let text: string;
+    if (value instanceof Error) {
+        text = value.message;
+    } else if (value instanceof Date) {
+        text = value.toISOString();
+    } else if (typeof value === 'object') {
+        text = safeStringify(value);
+    } else {
+        text = String(value);
+    }
+
+    return text === '' || /[\s="\\]/.test(text) ? JSON.stringify(text) : text;
+};
+
+/**
+ * Formatter producing plain text lines
+ * 
+ * @example
+ * ```typescript
+ * new TextFormatter().format(entry);
+ * // 2023-12-25T12:00:00.000Z INFO [DATABASE] Query executed rows=10 table=users
+ * ```
+ */
+export class TextFormatter implements Formatter {
+    private readonly options: FormatterOptions;
+
+    constructor(options: FormatterOptions = {}) {
+        this.options = {
+            showLogType: true,
+            ...options
+        };
+    }
+
+    /**
+     * Formats an entry as a plain text line
+     * @param entry - Log entry to format
+     * @returns Formatted log line
+     */
+    public format(entry: LogEntry): string {
+        const { level, message, timestamp, name, metadata = {} } = entry;
+        const { prefix, excludeMetadata = [] } = this.options;
+        const severity = getSeverity(level);
+
+        const parts = [timestamp, severity.toUpperCase()];
+        if (this.options.showLogType && level !== severity) {
+            parts.push(`[${level.toUpperCase()}]`);
+        }
+        if (name) parts.push(`[${name}]`);
+        if (prefix) parts.push(prefix);
+        parts.push(message);
+
+        for (const [key, value] of Object.entries(metadata)) {
+            if (excludeMetadata.includes(key)) continue;
+            parts.push(`${key}=${formatLogfmtValue(value)}`);
+        }
+
+        return parts.join(' ');
+    }
+}
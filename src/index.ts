@@ -1,2 +1,6 @@
 export { Logger } from './logger';
-export * from './types'; 
\ No newline at end of file
+export { ConsoleTransport, FileTransport } from './transports';
+export { ConsoleFormatter, TextFormatter, JsonFormatter } from './formatters';
+export { createHttpLogger } from './middleware';
+export type { HttpMiddleware, LoggedRequest } from './middleware';
+export * from './types'; 
@@ -4,21 +4,85 @@
  * @description
  * Provides a comprehensive logging framework with support for:
  * - Multiple log levels (trace, debug, info, warn, error, fatal) and specialized logging categories
- * - File and console output with automatic log rotation
+ * - Pluggable transports, with built-in console and rotating file outputs
  * - Structured logging with metadata and context
  * - Color-coded console output with emoji support
- * - Singleton pattern for global logging instance
+ * - Singleton pattern for global logging instance, plus named and child loggers
  * - Specialized logging categories for web, security, database, performance, etc.
  */
 
-import { writeFile, appendFile, existsSync, mkdirSync, renameSync, promises as fsPromises } from 'fs';
-import { dirname } from 'path';
-import { colors, symbols } from './utils/colors';
-import { getTimestamp } from './utils/time';
-import { LogLevel, LoggerOptions, LogEntry, LogMetadata, LogSeverity } from './types';
-import { formatLogLine } from './utils/formatter';
-import { defaultLogLevels, defaultTypeMapping } from './utils/levels';
-import chalk from 'chalk';
+import { createTimestampFormatter, getElapsedMs } from './utils/time';
+import {
+  LogLevel, LoggerOptions, LogEntry, LogMetadata, LogSeverity, LogFormat,
+  ChildLoggerOptions, Transport, Formatter, LogTypeConfig, LogMethod, LogInput, Timer
+} from './types';
+import {
+  defaultLogLevels, getSeverity, registerTypeSeverity, compileNamespaceLevels, parseLevelList, NamespaceLevel
+} from './utils/levels';
+import { registerTypeStyle } from './utils/colors';
+import { createRedactor, Redactor } from './utils/redaction';
+import { exitContext, getContext, runWithContext } from './utils/context';
+import { sanitize } from './utils/serialize';
+import { parseArguments } from './utils/arguments';
+import { createRateLimiter, getSampleRate, isSampled, RateLimiter } from './utils/sampling';
+import { createDeduplicator, Deduplicator } from './utils/dedup';
+import { ExitReason, registerExitHooks } from './utils/exit';
+import cluster from 'cluster';
+import { ClusterTransport, createOutputTransports, receiveWorkerEntries, WorkerTransport } from './transports';
+import { createFormatter } from './formatters';
+
+/**
+ * Options that configure the built-in console and file transports.
+ * Changing any of them through `updateOptions()` rebuilds those transports.
+ * @private
+ */
+const OUTPUT_OPTIONS: (keyof LoggerOptions)[] = [
+  'console',
+  'outputFile',
+  'maxSize',
+  'rotate',
+  'rotateCount',
+  'logFileMode',
+  'compression',
+  'compressFormat',
+  'bufferSize',
+  'flushInterval',
+  'datePattern',
+  'timeZone',
+  'maxAgeDays',
+  'asyncLogging',
+  'workerQueueSize',
+  'backpressure',
+  'clusterMode'
+];
+
+/**
+ * Options the worker thread formats entries with when `asyncLogging` is
+ * 'worker'. Changing any of them restarts the worker.
+ * @private
+ */
+const WORKER_FORMAT_OPTIONS: (keyof LoggerOptions)[] = [
+  'format',
+  'consoleJson',
+  'colors',
+  'showEmoji',
+  'showLogType',
+  'prefix',
+  'prettyPrint',
+  'indentation',
+  'metadata'
+];
+
+/**
+ * Level overrides shared by a logger and its children
+ * @private
+ */
+interface LevelOverrides {
+  types: Record<string, LogSeverity>;
+  namespaces: NamespaceLevel[];
+  /** Incremented on every change so cached namespace lookups are refreshed */
+  version: number;
+}
 
 /**
  * Core Logger class implementing comprehensive logging capabilities
@@ -26,13 +90,18 @@ import chalk from 'chalk';
  * @class Logger
  * @description
  * Provides a robust logging implementation with support for:
- * - Multiple output formats (console, JSON, text)
+ * - Multiple output formats (console, JSON, text) and custom formatters
+ * - Pluggable transports with per-transport level and formatter
  * - Log file rotation and size management
  * - Structured metadata and context
- * - Specialized logging categories for different domains
+ * - Specialized logging categories for different domains, extensible at runtime
  * - Color-coded console output with optional emoji
  * - Global singleton configuration
- * - Timestamp caching for performance
+ * - Named instances and child loggers with bound context
+ * - Level overrides per log type and per logger name pattern
+ * - Redaction of sensitive keys and values in every output
+ * - Correlation IDs propagated through asynchronous call chains
+ * - Millisecond-accurate timestamps with cached date prefixes
  * - Automatic log directory creation
  * 
  * @example
@@ -56,63 +125,152 @@ import chalk from 'chalk';
   /** @private Singleton instance */
   private static instance: Logger;
 
+  /** @private Logger this instance was derived from via `child()` */
+  private readonly parent?: Logger;
+
+  /** @private Metadata merged into every entry written by this logger */
+  private readonly bindings: LogMetadata;
+
+  /** @private Output destinations, shared with child loggers */
+  private readonly transports: Transport[];
+
+  /** @private Level overrides by type and namespace, shared with child loggers */
+  private readonly levelOverrides: LevelOverrides;
+
+  /** @private Rate limiter, shared with child loggers */
+  private readonly rateLimiter: RateLimiter;
+
+  /** @private Duplicate entry suppression, shared with child loggers */
+  private readonly deduplicator: Deduplicator;
+
+  /** @private Levels parsed from `LOG_LEVELS` and `LOG_NAMESPACES`, read by the root logger */
+  private readonly environmentLevels?: Record<'levels' | 'namespaces', ReturnType<typeof parseLevelList>>;
+
+  /** @private Namespace level resolved for this logger's name */
+  private namespaceLevel?: { version: number; name: string; severity?: LogSeverity };
+
+  /** @private Built-in formatters created from the current options */
+  private formatters: Partial<Record<LogFormat, Formatter>> = {};
+
   /**
    * Private constructor to enforce singleton pattern
    * @private
    * @param options - Logger configuration options
-   */
-  private constructor(options: LoggerOptions = {}) {
-    this.options = {
-      level: 'info',
-      minLevel: options.minLevel || options.level || 'info',
-      format: 'console',
-      timestamp: true,
-      colors: true,
-      prefix: '',
-      metadata: {},
-      outputFile: '',
-      datePattern: 'YYYY-MM-DD',
-      console: true,
-      maxSize: 10 * 1024 * 1024, // 10MB
-      rotate: true,
-      rotateCount: 5,
-      silent: false,
-      showEmoji: false,
-      showLogType: true,
-      timeFormat: 'ISO',
-      timeZone: 'UTC',
-      indentation: 2,
-      maskSecrets: false,
-      maskFields: [],
-      maskChar: '*',
-      bufferSize: 1000,
-      flushInterval: 5000,
-      asyncLogging: false,
-      exitOnError: false,
-      logFileMode: 0o666,
-      compression: false,
-      compressFormat: 'gzip',
-      consoleJson: false,
-      colorizeObjects: true,
-      levelColumnWidth: 7,
-      sampleRate: 1,
-      prettyPrint: false,
-      debugMode: false,
-      stackTraceLimit: 10,
-      errorHandler: (error: Error) => console.error('Logging error:', error),
-      contextProvider: () => ({}),
-      correlationIdPath: [],
-      filter: (entry: LogEntry) => true,
-      ...options
-    };
+   * @param parent - Parent logger when creating a child
+   * @param bindings - Metadata bound to the child logger
+   */
+  private constructor(options: LoggerOptions = {}, parent?: Logger, bindings: LogMetadata = {}) {
+    this.parent = parent;
+
+    if (parent) {
+      this.bindings = { ...parent.bindings, ...bindings };
+      this.transports = parent.transports;
+      this.levelOverrides = parent.levelOverrides;
+      this.rateLimiter = parent.rateLimiter;
+      this.deduplicator = parent.deduplicator;
+      this.options = {
+        ...parent.options,
+        ...options,
+        minLevel: options.minLevel || options.level || parent.options.minLevel,
+        name: parent.options.name && options.name
+          ? `${parent.options.name}:${options.name}`
+          : options.name || parent.options.name
+      };
+    } else {
+      this.bindings = bindings;
+      this.options = {
+        level: 'info',
+        minLevel: options.minLevel || options.level || 'info',
+        format: 'console',
+        timestamp: true,
+        colors: true,
+        prefix: '',
+        name: '',
+        transports: [],
+        metadata: {},
+        outputFile: '',
+        datePattern: '',
+        maxAgeDays: 0,
+        levels: {},
+        namespaces: {},
+        console: true,
+        maxSize: 10 * 1024 * 1024, // 10MB
+        rotate: true,
+        rotateCount: 5,
+        silent: false,
+        showEmoji: false,
+        showLogType: true,
+        timeFormat: 'ISO',
+        timeZone: 'UTC',
+        indentation: 2,
+        maxDepth: 10,
+        maxArrayLength: 100,
+        maxStringLength: 10000,
+        maskSecrets: false,
+        maskFields: [],
+        maskPatterns: ['creditCard', 'jwt', 'bearer', 'awsKey'],
+        maskStrategy: 'mask',
+        maskChar: '*',
+        bufferSize: 1000,
+        flushInterval: 5000,
+        asyncLogging: false,
+        workerQueueSize: 10000,
+        backpressure: 'block',
+        clusterMode: false,
+        slowThreshold: 0,
+        exitOnError: false,
+        handleExit: false,
+        reopenOnSighup: false,
+        logFileMode: 0o666,
+        compression: false,
+        compressFormat: 'gzip',
+        consoleJson: false,
+        colorizeObjects: true,
+        levelColumnWidth: 7,
+        sampleRate: 1,
+        sampleRates: {},
+        rateLimit: false,
+        dedup: false,
+        prettyPrint: false,
+        debugMode: false,
+        stackTraceLimit: 10,
+        filterStackFrames: false,
+        errorHandler: (error: Error) => console.error('Logging error:', error),
+        contextProvider: () => ({}),
+        correlationIdPath: [],
+        filter: (entry: LogEntry) => true,
+        ...options
+      };
 
-    if (this.options.outputFile) {
-      this.ensureLogDirectory();
-    }
+      this.environmentLevels = {
+        levels: parseLevelList(process.env.LOG_LEVELS),
+        namespaces: parseLevelList(process.env.LOG_NAMESPACES)
+      };
+      this.applyEnvironmentLevels();
+      this.levelOverrides = {
+        types: this.options.levels,
+        namespaces: compileNamespaceLevels(this.options.namespaces),
+        version: 0
+      };
 
-    if (this.options.bufferSize > 0) {
-      this.setupBuffering();
+      this.transports = options.transports
+        ? [...options.transports]
+        : this.createDefaultTransports();
+      this.rateLimiter = createRateLimiter(this.options.rateLimit, (key, count) => exitContext(() =>
+        this.log('warn', `${count} messages suppressed: ${key}`, { suppressed: count, key })));
+      this.deduplicator = createDeduplicator(this.options.dedup, (entry, repeated) =>
+        this.writeToTransports({
+          ...entry,
+          timestamp: this.formatTimestamp(),
+          metadata: { ...entry.metadata, repeated },
+          sequence: ++Logger.sequence
+        }));
+      this.setExitHooks(this.options.handleExit);
+      this.setWorkerReceiver(this.options.clusterMode);
+      this.setSighupHandler(this.options.reopenOnSighup);
     }
+
+    this.applyOptions();
   }
 
   /**
@@ -128,173 +286,396 @@ import chalk from 'chalk';
   }
 
   /**
-   * Formats a log message according to configured format
-   * @private
-   * @param level - Log level of the message
-   * @param message - The message to format
-   * @param metadata - Optional metadata to include
-   * @returns Formatted log message string
+   * Creates an independent named logger that does not share configuration
+   * with the global instance. Intended for libraries that must not be
+   * affected by (or affect) the application's `updateOptions()` calls.
+   * @param name - Name attached to every entry written by the logger
+   * @param options - Logger configuration options
+   * @returns A new Logger instance
    */
-  private formatMessage(level: LogLevel, message: string, metadata?: LogMetadata): string {
-    const timestamp = this.getFormattedTimestamp();
-    const logType = level !== defaultTypeMapping[level] ? level : undefined;
-    
-    // Apply sampling
-    if (Math.random() > (this.options.sampleRate ?? 1)) {
-      return '';
-    }
+  public static create(name: string, options: LoggerOptions = {}): Logger {
+    return new Logger({ ...options, name });
+  }
 
-    // Apply custom filter
-    if (this.options.filter) {
-      const entry: LogEntry = { level, message, timestamp, metadata };
-      if (!this.options.filter(entry)) {
-        return '';
-      }
-    }
+  /**
+   * Creates a child logger that writes to the same outputs as this logger
+   * and merges the given bindings into the metadata of every entry.
+   * The child starts from a copy of this logger's options, so later
+   * `updateOptions()` calls on either logger do not affect the other.
+   * @param bindings - Metadata bound to every entry (e.g. service, requestId)
+   * @param options - Options overriding the inherited configuration
+   * @returns A new child Logger
+   * 
+   * @example
+   * ```typescript
+   * const requestLogger = logger.child({ requestId: 'req_123' }, { name: 'http' });
+   * requestLogger.info('Handling request'); // includes requestId in metadata
+   * ```
+   */
+  public child(bindings: LogMetadata = {}, options: ChildLoggerOptions = {}): Logger {
+    return new Logger(options, this, bindings);
+  }
 
-    // Mask sensitive data
-    let maskedMetadata = this.maskSensitiveData(metadata);
+  /**
+   * Resolves the formatter used for a transport, building the built-in
+   * formats from this logger's options on first use
+   * @private
+   * @param formatter - Formatter or format requested by the transport
+   * @returns The formatter to use
+   */
+  private getFormatter(formatter?: Formatter | LogFormat): Formatter {
+    if (formatter && typeof formatter !== 'string') return formatter;
 
-    // Add dynamic context
-    if (this.options.contextProvider) {
-      const context = this.options.contextProvider();
-      maskedMetadata = { ...maskedMetadata, ...context };
-    }
+    const { format, consoleJson } = this.options;
+    if (!formatter && typeof format !== 'string') return format;
 
-    // Format based on options
-    if (this.options.consoleJson) {
-      return JSON.stringify({
-        timestamp,
-        level: defaultTypeMapping[level],
-        type: logType,
-        message,
-        ...maskedMetadata,
-        ...this.options.metadata
-      }, null, this.options.prettyPrint ? this.options.indentation : 0);
-    }
+    const name: LogFormat = formatter || (consoleJson ? 'json' : format as LogFormat);
+    return this.formatters[name] ??= this.createFormatter(name);
+  }
 
-    const levelColor = this.options.colors ? colors[defaultTypeMapping[level]] : (text: string) => text;
-    const typeColor = this.options.colors ? colors[level] : (text: string) => text;
-    
-    return formatLogLine(
-        timestamp,
-        defaultTypeMapping[level],
-        this.options.showLogType ? logType : undefined,
-        `${this.options.prefix ? `${this.options.prefix} ` : ''}${message}`,
-        levelColor,
-        typeColor,
-        this.options.showEmoji,
-        symbols[level],
-        metadata?.source,
-        metadata
-    );
-  }
-
-  // Add timestamp caching
-  private lastTimestamp: string = '';
-  private lastTimestampTime: number = 0;
-
-  private getFormattedTimestamp(): string {
-    const now = Date.now();
-    if (now - this.lastTimestampTime < 1000) {
-        return this.lastTimestamp;
-    }
-    
-    this.lastTimestamp = getTimestamp(this.options.format);
-    this.lastTimestampTime = now;
-    return this.lastTimestamp;
+  /**
+   * Creates a built-in formatter configured from the logger options
+   * @private
+   * @param format - Built-in format to create
+   * @returns A new formatter
+   */
+  private createFormatter(format: LogFormat): Formatter {
+    return createFormatter(format, this.options);
   }
 
+  /** @private Log types added through `registerType()` */
+  private static registeredTypes = new Set<string>();
+
+  /** @private Number of the last entry created by any logger */
+  private static sequence = 0;
+
+  /** @private Formats entry timestamps, caching the per-second prefix */
+  private formatTimestamp!: (date?: Date) => string;
+
+  /** @private Redaction engine, present when `maskSecrets` is enabled */
+  private redactor?: Redactor;
+
+  /** @private Timers started by `profile()`, keyed by label */
+  private readonly profiles = new Map<string, Timer>();
+
+  /** @private Removes the process exit hooks installed by `handleExit` */
+  private removeExitHooks?: () => void;
+
+  /** @private Reopens output files when SIGHUP is received */
+  private readonly onSighup = () => {
+    this.reopen().catch(this.handleError.bind(this));
+  };
+
+  /** @private Stops writing entries forwarded by cluster workers */
+  private stopReceiving?: () => void;
+
+  /** @private Set once the logger is ending the process, so exiting is not re-entered */
+  private exiting = false;
+
   /**
-   * Rotates log files when size limit is reached
+   * Rebuilds the state derived from the current options
    * @private
    */
-  private rotateLogs() {
-    const { outputFile, rotateCount } = this.options;
-    for (let i = rotateCount - 1; i > 0; i--) {
-      const oldFile = `${outputFile}.${i}`;
-      const newFile = `${outputFile}.${i + 1}`;
-      if (existsSync(oldFile)) {
-        renameSync(oldFile, newFile);
-      }
-    }
-    renameSync(outputFile, `${outputFile}.1`);
+  private applyOptions(): void {
+    const { timeFormat, timeZone, maskSecrets, maskFields, maskPatterns, maskStrategy, maskChar } = this.options;
+
+    this.formatters = {};
+    this.formatTimestamp = createTimestampFormatter(timeFormat, timeZone);
+    this.redactor = maskSecrets
+      ? createRedactor({ fields: maskFields, detectors: maskPatterns, strategy: maskStrategy, maskChar })
+      : undefined;
   }
 
   /**
-   * Writes a log entry to the configured output file
+   * Merges the levels set through environment variables over the options,
+   * as they take precedence over options given in code
    * @private
-   * @param entry - Log entry to write
    */
-  private async logToFile(entry: LogEntry): Promise<void> {
-    const { outputFile, maxSize, rotate } = this.options;
-    try {
-      if (rotate && existsSync(outputFile)) {
-        const { size } = await fsPromises.stat(outputFile);
-        if (size >= maxSize) {
-          this.rotateLogs();
-        }
-      }
-      await fsPromises.appendFile(
-        outputFile, 
-        JSON.stringify(entry) + '\n', 
-        'utf8'
-      );
-    } catch (error) {
-      console.error('Failed to write log to file:', error);
-    }
+  private applyEnvironmentLevels(): void {
+    if (!this.environmentLevels) return;
+
+    const { levels, namespaces } = this.environmentLevels;
+    this.options.minLevel = levels.severity || this.options.minLevel;
+    this.options.levels = { ...this.options.levels, ...levels.overrides };
+    this.options.namespaces = { ...this.options.namespaces, ...namespaces.overrides };
   }
 
   /**
-   * Determines if a message should be logged based on configured level
+   * Determines if a message should be logged based on configured level.
+   * A level set for the log type takes precedence over one set for the
+   * logger's namespace, which takes precedence over `minLevel`.
    * @private
    * @param level - Level of the message to check
    * @returns Whether the message should be logged
    */
-  private shouldLog(level: LogLevel): boolean {
-    const configuredLevel = defaultLogLevels[this.options.minLevel || 'info'];
-    const messageSeverity = defaultTypeMapping[level];
+  private shouldLog(level: LogLevel | string): boolean {
+    const threshold = this.levelOverrides.types[level]
+      ?? this.getNamespaceLevel()
+      ?? this.options.minLevel
+      ?? 'info';
+    const configuredLevel = defaultLogLevels[threshold];
+    const messageSeverity = getSeverity(level);
     const messageLevel = defaultLogLevels[messageSeverity];
     
     return messageLevel >= configuredLevel;
   }
 
+  /**
+   * Resolves the most specific namespace level matching this logger's name
+   * @private
+   * @returns The matching severity, if any
+   */
+  private getNamespaceLevel(): LogSeverity | undefined {
+    const { name } = this.options;
+    const { namespaces, version } = this.levelOverrides;
+    if (!name || namespaces.length === 0) return undefined;
+
+    if (this.namespaceLevel?.version !== version || this.namespaceLevel.name !== name) {
+      this.namespaceLevel = {
+        version,
+        name,
+        severity: namespaces.find(namespace => namespace.matcher.test(name))?.severity
+      };
+    }
+    return this.namespaceLevel.severity;
+  }
+
+  /**
+   * Logs the variadic arguments of a logging method
+   * @private
+   * @param level - Log level for the message
+   * @param input - Message, template, Error or metadata object
+   * @param args - Format arguments and metadata
+   */
+  private logArguments(level: LogLevel | string, input: LogInput, args: unknown[]): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    // Evaluate deferred arguments only now that the entry will be logged
+    if (typeof input === 'function') {
+      let result: unknown;
+      try {
+        result = input();
+      } catch (error) {
+        this.handleError(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      [input, ...args] = Array.isArray(result) ? [...result, ...args] : [result, ...args];
+    }
+
+    const { message, template, metadata } = parseArguments(input, args);
+    this.log(level, message, metadata, template);
+  }
+
+  /**
+   * Tests whether entries of a level or type would be logged, to guard
+   * expensive logging code
+   * @param level - Log level or type, including registered types
+   * @returns True unless the logger is silent or the level is filtered out
+   * 
+   * @example
+   * ```typescript
+   * if (logger.isLevelEnabled('query')) {
+   *   logger.query('Plan', { plan: await db.explain(sql) });
+   * }
+   * ```
+   */
+  public isLevelEnabled(level: LogLevel | string): boolean {
+    return !this.options.silent && this.shouldLog(level);
+  }
+
   /**
    * Core logging method that handles all log operations
    * @private
    * @param level - Log level for the message
    * @param message - Message to log
    * @param metadata - Optional metadata to include
+   * @param template - Raw template the message was interpolated from
    */
-  private log(level: LogLevel, message: string, metadata?: LogMetadata): void {
+  private log(level: LogLevel | string, message: string, metadata?: LogMetadata, template?: string): void {
     if (this.options.silent || !this.shouldLog(level)) return;
 
-    const formattedMessage = this.formatMessage(level, message, metadata);
-
-    if (this.options.console) {
-      switch (level) {
-        case 'error':
-        case 'fatal':
-          console.error(formattedMessage);
-          break;
-        case 'warn':
-          console.warn(formattedMessage);
-          break;
-        default:
-          console.log(formattedMessage);
+    // Add bound, asynchronous and dynamic context
+    let entryMetadata: LogMetadata = {
+      ...this.options.metadata,
+      ...this.bindings,
+      ...getContext(),
+      ...metadata,
+      ...(this.options.contextProvider ? this.options.contextProvider() : {})
+    };
+
+    // The resolved ID is used for sampling and written both at the top level and in the metadata
+    const { correlationId: givenId } = entryMetadata;
+    const correlationId = this.extractCorrelationId(entryMetadata)
+      ?? (typeof givenId === 'string' || typeof givenId === 'number' ? String(givenId) : undefined);
+    if (correlationId !== undefined) {
+      entryMetadata.correlationId = correlationId;
+    }
+
+    // Apply sampling, keeping or dropping all entries of a request together
+    const { sampleRate, sampleRates } = this.options;
+    if (!isSampled(getSampleRate(level, getSeverity(level), sampleRate, sampleRates), correlationId)) return;
+
+    // Convert to JSON-safe data once, so no output can throw or grow unbounded
+    const { maxDepth, maxArrayLength, maxStringLength } = this.options;
+    const serializeOptions = {
+      maxDepth,
+      maxArrayLength,
+      maxStringLength,
+      errors: { stackTraceLimit: this.options.stackTraceLimit, filterFrames: this.options.filterStackFrames }
+    };
+    message = sanitize(message, serializeOptions) as string;
+    if (template !== undefined) template = sanitize(template, serializeOptions) as string;
+    entryMetadata = sanitize(entryMetadata, serializeOptions) as LogMetadata;
+
+    // Mask sensitive data
+    if (this.redactor) {
+      message = this.redactor.redactString(message);
+      if (template !== undefined) template = this.redactor.redactString(template);
+      entryMetadata = this.redactor.redactValue(entryMetadata);
+    }
+
+    const entry: LogEntry = {
+      level,
+      message,
+      timestamp: this.formatTimestamp(),
+      metadata: entryMetadata,
+      ...(this.options.name ? { name: this.options.name } : {}),
+      ...(template !== undefined ? { template } : {}),
+      ...(correlationId !== undefined ? { correlationId } : {})
+    };
+
+    // Apply custom filter
+    if (this.options.filter && !this.options.filter(entry)) return;
+
+    // Collapse repeated entries, then apply rate limiting
+    if (!this.deduplicator.check(entry)) return;
+    if (!this.rateLimiter.take(entry)) return;
+
+    // Number entries as they are written, after any pending repeat summary
+    entry.sequence = ++Logger.sequence;
+
+    this.writeToTransports(entry);
+  }
+
+  /**
+   * Hands an entry to every transport whose level accepts it, formatting
+   * it at most once per formatter
+   * @private
+   * @param entry - Log entry to write
+   */
+  private writeToTransports(entry: LogEntry): void {
+    const messageLevel = defaultLogLevels[getSeverity(entry.level)];
+    const lines = new Map<Formatter, string>();
+
+    for (const transport of this.transports) {
+      if (transport.minLevel && messageLevel < defaultLogLevels[transport.minLevel]) continue;
+
+      try {
+        // Raw transports format entries themselves
+        let line = '';
+        if (!transport.raw || this.overridesWorkerFormat(transport)) {
+          const formatter = this.getFormatter(transport.formatter);
+          line = lines.get(formatter) ?? formatter.format(entry);
+          lines.set(formatter, line);
+        }
+        const result = transport.write(entry, line);
+        if (result) {
+          result.catch(error => this.handleError(error));
+        }
+      } catch (error) {
+        this.handleError(error as Error);
       }
     }
+  }
 
-    if (this.options.outputFile) {
-      const entry: LogEntry = {
-        level,
-        message,
-        timestamp: getTimestamp(),
-        metadata: { ...this.options.metadata, ...metadata }
-      };
+  /**
+   * Tests whether entries for a worker transport must be formatted here,
+   * because the worker formats with the root logger's options and this
+   * logger overrides them
+   * @private
+   * @param transport - Transport being written to
+   * @returns True if any formatting option differs from the root logger's
+   */
+  private overridesWorkerFormat(transport: Transport): boolean {
+    if (!(transport instanceof WorkerTransport)) return false;
+
+    let root: Logger = this;
+    while (root.parent) root = root.parent;
+    return root !== this && WORKER_FORMAT_OPTIONS.some(key => this.options[key] !== root.options[key]);
+  }
+
+  /**
+   * Builds the console and file transports described by the logger options
+   * @private
+   * @returns Transports for the configured built-in outputs
+   */
+  private createDefaultTransports(): Transport[] {
+    const { asyncLogging, clusterMode, console, outputFile, format } = this.options;
+
+    // Cluster workers leave all output to the primary process
+    if (clusterMode && cluster.isWorker && (console || outputFile)) {
+      return [new ClusterTransport({ onError: this.handleError.bind(this) })];
+    }
 
-      this.logToFile(entry);
+    // Custom formatter functions cannot be sent to a worker thread, so they keep output on this thread
+    if (asyncLogging !== 'worker' || typeof format !== 'string' || (!console && !outputFile)) {
+      return createOutputTransports(this.options, { onError: this.handleError.bind(this) });
     }
+
+    const o = this.options;
+    return [new WorkerTransport({
+      settings: {
+        format,
+        consoleJson: o.consoleJson,
+        colors: o.colors,
+        showEmoji: o.showEmoji,
+        showLogType: o.showLogType,
+        prefix: o.prefix,
+        prettyPrint: o.prettyPrint,
+        indentation: o.indentation,
+        metadata: sanitize(o.metadata) as LogMetadata,
+        console,
+        outputFile,
+        maxSize: o.maxSize,
+        rotate: o.rotate,
+        rotateCount: o.rotateCount,
+        logFileMode: o.logFileMode,
+        compression: o.compression,
+        compressFormat: o.compressFormat,
+        bufferSize: o.bufferSize,
+        flushInterval: o.flushInterval,
+        datePattern: o.datePattern,
+        timeZone: o.timeZone,
+        maxAgeDays: o.maxAgeDays
+      },
+      queueSize: o.workerQueueSize,
+      backpressure: o.backpressure,
+      onError: this.handleError.bind(this)
+    })];
+  }
+
+  /**
+   * Swaps the active transports in place so child loggers pick up the change,
+   * closing any transport that is no longer in use
+   * @private
+   * @param transports - New set of transports
+   */
+  private replaceTransports(transports: Transport[]): void {
+    const previous = this.transports.splice(0, this.transports.length, ...transports);
+    previous
+      .filter(transport => !transports.includes(transport))
+      .forEach(transport => this.closeTransport(transport));
+  }
+
+  /**
+   * Closes a transport, reporting failures through the error handler
+   * @private
+   * @param transport - Transport to close
+   * @returns Promise resolving once the transport is closed
+   */
+  private closeTransport(transport: Transport): Promise<void> {
+    if (!transport.close) return Promise.resolve();
+    return transport.close().catch(this.handleError.bind(this));
   }
 
   // Standard Levels
@@ -302,70 +683,66 @@ import chalk from 'chalk';
   /**
    * Logs a trace level message
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public trace(message: string, metadata?: LogMetadata): void {
-    this.log('trace', message, metadata);
+  public trace(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('trace', message, args);
   }
 
   /**
    * Logs a debug level message
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public debug(message: string, metadata?: LogMetadata): void {
-    this.log('debug', message, metadata);
+  public debug(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('debug', message, args);
   }
 
   /**
    * Logs an info level message
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public info(message: string, metadata?: LogMetadata): void {
-    this.log('info', message, metadata);
+  public info(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('info', message, args);
   }
 
   /**
    * Logs a success message at info level
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public success(message: string, metadata?: LogMetadata): void {
-    this.log('success', message, metadata);
+  public success(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('success', message, args);
   }
 
   /**
    * Logs a warning message
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public warn(message: string, metadata?: LogMetadata): void {
-    this.log('warn', message, metadata);
+  public warn(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('warn', message, args);
   }
 
   /**
    * Logs an error message with optional stack trace
-   * @param message - Error object or message to log
-   * @param metadata - Optional metadata
+   * @param message - Error object or message to log; errors are serialized
+   * under the `error` metadata key with their stack and causes
+   * @param args - Format arguments, followed by optional metadata
    */
-  public error(message: string | Error, metadata?: LogMetadata): void {
-    const errorMessage = message instanceof Error 
-        ? `${message.message}\n${message.stack}` 
-        : String(message);
-    this.log('error', errorMessage, metadata);
+  public error(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('error', message, args);
   }
 
   /**
    * Logs a fatal error message with optional stack trace
-   * @param message - Error object or message to log
-   * @param metadata - Optional metadata
+   * @param message - Error object or message to log; errors are serialized
+   * under the `error` metadata key with their stack and causes
+   * @param args - Format arguments, followed by optional metadata
    */
-  public fatal(message: string | Error, metadata?: LogMetadata): void {
-    const errorMessage = message instanceof Error 
-        ? `${message.message}\n${message.stack}` 
-        : String(message);
-    this.log('fatal', errorMessage, metadata);
+  public fatal(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('fatal', message, args);
   }
 
   // Development & Debug
@@ -373,37 +750,37 @@ import chalk from 'chalk';
   /**
    * Logs verbose debug information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public verbose(message: string, metadata?: LogMetadata): void {
-    this.log('verbose', message, metadata);
+  public verbose(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('verbose', message, args);
   }
 
   /**
    * Logs very detailed debug information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public silly(message: string, metadata?: LogMetadata): void {
-    this.log('silly', message, metadata);
+  public silly(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('silly', message, args);
   }
 
   /**
    * Logs test-related information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public test(message: string, metadata?: LogMetadata): void {
-    this.log('test', message, metadata);
+  public test(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('test', message, args);
   }
 
   /**
    * Logs mock/stub related information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public mock(message: string, metadata?: LogMetadata): void {
-    this.log('mock', message, metadata);
+  public mock(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('mock', message, args);
   }
 
   // Web & API Related
@@ -411,55 +788,55 @@ import chalk from 'chalk';
   /**
    * Logs HTTP request/response information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public http(message: string, metadata?: LogMetadata): void {
-    this.log('http', message, metadata);
+  public http(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('http', message, args);
   }
 
   /**
    * Logs incoming request details
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public request(message: string, metadata?: LogMetadata): void {
-    this.log('request', message, metadata);
+  public request(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('request', message, args);
   }
 
   /**
    * Logs outgoing response details
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public response(message: string, metadata?: LogMetadata): void {
-    this.log('response', message, metadata);
+  public response(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('response', message, args);
   }
 
   /**
    * Logs GraphQL operation information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public graphql(message: string, metadata?: LogMetadata): void {
-    this.log('graphql', message, metadata);
+  public graphql(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('graphql', message, args);
   }
 
   /**
    * Logs WebSocket related information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public websocket(message: string, metadata?: LogMetadata): void {
-    this.log('websocket', message, metadata);
+  public websocket(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('websocket', message, args);
   }
 
   /**
    * Logs general API related information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public api(message: string, metadata?: LogMetadata): void {
-    this.log('api', message, metadata);
+  public api(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('api', message, args);
   }
 
   // Security Related
@@ -467,46 +844,46 @@ import chalk from 'chalk';
   /**
    * Logs security related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public security(message: string, metadata?: LogMetadata): void {
-    this.log('security', message, metadata);
+  public security(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('security', message, args);
   }
 
   /**
    * Logs audit trail information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public audit(message: string, metadata?: LogMetadata): void {
-    this.log('audit', message, metadata);
+  public audit(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('audit', message, args);
   }
 
   /**
    * Logs authentication related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public auth(message: string, metadata?: LogMetadata): void {
-    this.log('auth', message, metadata);
+  public auth(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('auth', message, args);
   }
 
   /**
    * Logs access control events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public access(message: string, metadata?: LogMetadata): void {
-    this.log('access', message, metadata);
+  public access(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('access', message, args);
   }
 
   /**
    * Logs firewall related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public firewall(message: string, metadata?: LogMetadata): void {
-    this.log('firewall', message, metadata);
+  public firewall(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('firewall', message, args);
   }
 
   // Database Related
@@ -514,37 +891,37 @@ import chalk from 'chalk';
   /**
    * Logs database operations
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public database(message: string, metadata?: LogMetadata): void {
-    this.log('database', message, metadata);
+  public database(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('database', message, args);
   }
 
   /**
    * Logs database query information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public query(message: string, metadata?: LogMetadata): void {
-    this.log('query', message, metadata);
+  public query(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('query', message, args);
   }
 
   /**
    * Logs database migration events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public migration(message: string, metadata?: LogMetadata): void {
-    this.log('migration', message, metadata);
+  public migration(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('migration', message, args);
   }
 
   /**
    * Logs cache operations
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public cache(message: string, metadata?: LogMetadata): void {
-    this.log('cache', message, metadata);
+  public cache(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('cache', message, args);
   }
 
   // Performance Related
@@ -552,37 +929,37 @@ import chalk from 'chalk';
   /**
    * Logs performance related information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public performance(message: string, metadata?: LogMetadata): void {
-    this.log('performance', message, metadata);
+  public performance(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('performance', message, args);
   }
 
   /**
    * Logs metric data
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public metric(message: string, metadata?: LogMetadata): void {
-    this.log('metric', message, metadata);
+  public metric(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('metric', message, args);
   }
 
   /**
    * Logs benchmark results
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public benchmark(message: string, metadata?: LogMetadata): void {
-    this.log('benchmark', message, metadata);
+  public benchmark(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('benchmark', message, args);
   }
 
   /**
    * Logs memory usage information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public memory(message: string, metadata?: LogMetadata): void {
-    this.log('memory', message, metadata);
+  public memory(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('memory', message, args);
   }
 
   // System Related
@@ -590,46 +967,46 @@ import chalk from 'chalk';
   /**
    * Logs system level events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public system(message: string, metadata?: LogMetadata): void {
-    this.log('system', message, metadata);
+  public system(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('system', message, args);
   }
 
   /**
    * Logs process related information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public process(message: string, metadata?: LogMetadata): void {
-    this.log('process', message, metadata);
+  public process(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('process', message, args);
   }
 
   /**
    * Logs CPU usage information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public cpu(message: string, metadata?: LogMetadata): void {
-    this.log('cpu', message, metadata);
+  public cpu(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('cpu', message, args);
   }
 
   /**
    * Logs disk operations and usage
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public disk(message: string, metadata?: LogMetadata): void {
-    this.log('disk', message, metadata);
+  public disk(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('disk', message, args);
   }
 
   /**
    * Logs network related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public network(message: string, metadata?: LogMetadata): void {
-    this.log('network', message, metadata);
+  public network(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('network', message, args);
   }
 
   // Business Logic
@@ -637,37 +1014,37 @@ import chalk from 'chalk';
   /**
    * Logs business logic events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public business(message: string, metadata?: LogMetadata): void {
-    this.log('business', message, metadata);
+  public business(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('business', message, args);
   }
 
   /**
    * Logs transaction related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public transaction(message: string, metadata?: LogMetadata): void {
-    this.log('transaction', message, metadata);
+  public transaction(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('transaction', message, args);
   }
 
   /**
    * Logs workflow events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public workflow(message: string, metadata?: LogMetadata): void {
-    this.log('workflow', message, metadata);
+  public workflow(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('workflow', message, args);
   }
 
   /**
    * Logs business events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public event(message: string, metadata?: LogMetadata): void {
-    this.log('event', message, metadata);
+  public event(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('event', message, args);
   }
 
   // Integration
@@ -675,28 +1052,28 @@ import chalk from 'chalk';
   /**
    * Logs integration events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public integration(message: string, metadata?: LogMetadata): void {
-    this.log('integration', message, metadata);
+  public integration(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('integration', message, args);
   }
 
   /**
    * Logs webhook events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public webhook(message: string, metadata?: LogMetadata): void {
-    this.log('webhook', message, metadata);
+  public webhook(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('webhook', message, args);
   }
 
   /**
    * Logs external service interactions
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public external(message: string, metadata?: LogMetadata): void {
-    this.log('external', message, metadata);
+  public external(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('external', message, args);
   }
 
   // User Interaction
@@ -704,37 +1081,37 @@ import chalk from 'chalk';
   /**
    * Logs UI related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public ui(message: string, metadata?: LogMetadata): void {
-    this.log('ui', message, metadata);
+  public ui(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('ui', message, args);
   }
 
   /**
    * Logs user interaction events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public interaction(message: string, metadata?: LogMetadata): void {
-    this.log('interaction', message, metadata);
+  public interaction(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('interaction', message, args);
   }
 
   /**
    * Logs analytics events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public analytics(message: string, metadata?: LogMetadata): void {
-    this.log('analytics', message, metadata);
+  public analytics(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('analytics', message, args);
   }
 
   /**
    * Logs user tracking events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public tracking(message: string, metadata?: LogMetadata): void {
-    this.log('tracking', message, metadata);
+  public tracking(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('tracking', message, args);
   }
 
   // Background Tasks
@@ -742,37 +1119,37 @@ import chalk from 'chalk';
   /**
    * Logs background job information
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public job(message: string, metadata?: LogMetadata): void {
-    this.log('job', message, metadata);
+  public job(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('job', message, args);
   }
 
   /**
    * Logs queue processing events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public queue(message: string, metadata?: LogMetadata): void {
-    this.log('queue', message, metadata);
+  public queue(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('queue', message, args);
   }
 
   /**
    * Logs scheduled task events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public cron(message: string, metadata?: LogMetadata): void {
-    this.log('cron', message, metadata);
+  public cron(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('cron', message, args);
   }
 
   /**
    * Logs task execution events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public task(message: string, metadata?: LogMetadata): void {
-    this.log('task', message, metadata);
+  public task(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('task', message, args);
   }
 
   // Infrastructure
@@ -780,37 +1157,37 @@ import chalk from 'chalk';
   /**
    * Logs Kubernetes related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public kubernetes(message: string, metadata?: LogMetadata): void {
-    this.log('kubernetes', message, metadata);
+  public kubernetes(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('kubernetes', message, args);
   }
 
   /**
    * Logs Docker related events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public docker(message: string, metadata?: LogMetadata): void {
-    this.log('docker', message, metadata);
+  public docker(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('docker', message, args);
   }
 
   /**
    * Logs cloud infrastructure events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public cloud(message: string, metadata?: LogMetadata): void {
-    this.log('cloud', message, metadata);
+  public cloud(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('cloud', message, args);
   }
 
   /**
    * Logs serverless function events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public serverless(message: string, metadata?: LogMetadata): void {
-    this.log('serverless', message, metadata);
+  public serverless(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('serverless', message, args);
   }
 
   // Mobile Specific
@@ -818,37 +1195,79 @@ import chalk from 'chalk';
   /**
    * Logs mobile app events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public mobile(message: string, metadata?: LogMetadata): void {
-    this.log('mobile', message, metadata);
+  public mobile(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('mobile', message, args);
   }
 
   /**
    * Logs push notification events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public push(message: string, metadata?: LogMetadata): void {
-    this.log('push', message, metadata);
+  public push(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('push', message, args);
   }
 
   /**
    * Logs offline mode events
    * @param message - Message to log
-   * @param metadata - Optional metadata
+   * @param args - Format arguments, followed by optional metadata
    */
-  public offline(message: string, metadata?: LogMetadata): void {
-    this.log('offline', message, metadata);
+  public offline(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('offline', message, args);
   }
 
   /**
    * Logs data synchronization events
    * @param message - Message to log
-   * @param metadata - Optional metadata
-   */
-  public sync(message: string, metadata?: LogMetadata): void {
-    this.log('sync', message, metadata);
+   * @param args - Format arguments, followed by optional metadata
+   */
+  public sync(message: LogInput, ...args: unknown[]): void {
+    this.logArguments('sync', message, args);
+  }
+
+  /**
+   * Registers a custom log type and adds a logging method of the same name.
+   * Registered types are process-wide: the method is available on every
+   * logger, and registering an existing custom type updates its configuration.
+   * @param type - Name of the log type, also used as the method name
+   * @param config - Severity and console styling of the type
+   * @returns This logger, typed with the new logging method
+   * @throws Error if the name is not a valid identifier or collides with a built-in method
+   * 
+   * @example
+   * ```typescript
+   * const logger = Logger.getInstance()
+   *   .registerType('payment', { severity: 'info', color: 'green', emoji: '💳' });
+   * logger.payment('Card charged', { amount: 42 });
+   * ```
+   */
+  public registerType<T extends string>(
+    type: T,
+    config: Omit<LogTypeConfig, 'type'>
+  ): this & Record<T, LogMethod> {
+    if (!/^[A-Za-z_$][\w$]*$/.test(type) || (type in this && !Logger.registeredTypes.has(type))) {
+      throw new Error(`Cannot register log type "${type}": not a valid identifier or already in use`);
+    }
+
+    const typeConfig: LogTypeConfig = { ...config, type };
+    registerTypeSeverity(typeConfig);
+    registerTypeStyle(typeConfig);
+
+    if (!Logger.registeredTypes.has(type)) {
+      Logger.registeredTypes.add(type);
+      Object.defineProperty(Logger.prototype, type, {
+        configurable: true,
+        writable: true,
+        value: function (this: Logger, message: LogInput, ...args: unknown[]): void {
+          this.logArguments(type, message, args);
+        }
+      });
+    }
+
+    return this as this & Record<T, LogMethod>;
   }
 
   /**
@@ -856,143 +1275,374 @@ import chalk from 'chalk';
    * @param newOptions - Partial options to update
    */
   public updateOptions(newOptions: Partial<LoggerOptions>): void {
+    const usesDefaultTransports = this.options.transports.length === 0;
     this.options = { ...this.options, ...newOptions };
-  }
+    this.applyOptions();
 
-  private ensureLogDirectory(): void {
-    if (this.options.outputFile) {
-        const dir = dirname(this.options.outputFile);
-        try {
-            if (!existsSync(dir)) {
-                mkdirSync(dir, { recursive: true });
-            }
-        } catch (error) {
-            console.error(`Failed to create log directory: ${dir}`, error);
-        }
+    // Outputs and level overrides belong to the root logger and are shared with its children
+    if (this.parent) return;
+
+    if (newOptions.minLevel || newOptions.levels || newOptions.namespaces) {
+      this.applyEnvironmentLevels();
+      this.levelOverrides.types = this.options.levels;
+      this.levelOverrides.namespaces = compileNamespaceLevels(this.options.namespaces);
+      this.levelOverrides.version++;
     }
-  }
 
-  private buffer: LogEntry[] = [];
-  private flushTimeout?: NodeJS.Timeout;
+    if ('rateLimit' in newOptions) {
+      this.rateLimiter.configure(this.options.rateLimit);
+    }
 
-  private setupBuffering(): void {
-    if (this.options.flushInterval) {
-      this.flushTimeout = setInterval(() => {
-        this.flushBuffer();
-      }, this.options.flushInterval);
+    if ('dedup' in newOptions) {
+      this.deduplicator.configure(this.options.dedup);
     }
-  }
 
-  private async flushBuffer(): Promise<void> {
-    if (this.buffer.length === 0) return;
+    if ('handleExit' in newOptions) {
+      this.setExitHooks(this.options.handleExit);
+    }
 
-    const entries = [...this.buffer];
-    this.buffer = [];
+    if ('clusterMode' in newOptions) {
+      this.setWorkerReceiver(this.options.clusterMode);
+    }
 
-    if (this.options.outputFile) {
-      try {
-        await this.writeBufferedLogs(entries);
-      } catch (error) {
-        this.handleError(error as Error);
-      }
+    if ('reopenOnSighup' in newOptions) {
+      this.setSighupHandler(this.options.reopenOnSighup);
+    }
+
+    if (newOptions.transports) {
+      this.replaceTransports([...newOptions.transports]);
+    } else if (usesDefaultTransports && (
+      OUTPUT_OPTIONS.some(key => key in newOptions) ||
+      (this.options.asyncLogging === 'worker' && WORKER_FORMAT_OPTIONS.some(key => key in newOptions))
+    )) {
+      this.replaceTransports(this.createDefaultTransports());
     }
   }
 
   private handleError(error: Error): void {
     if (this.options.errorHandler) {
       this.options.errorHandler(error);
-    } else if (this.options.exitOnError) {
-      console.error('Fatal logging error:', error);
-      process.exit(1);
     } else {
       console.error('Logging error:', error);
     }
-  }
-
-  private maskSensitiveData(data: any): any {
-    if (!this.options.maskSecrets) return data;
 
-    const mask = (obj: any): any => {
-      if (typeof obj !== 'object' || obj === null) return obj;
-      
-      const masked = Array.isArray(obj) ? [...obj] : { ...obj };
-      for (const [key, value] of Object.entries(masked)) {
-        if (this.options.maskFields?.includes(key)) {
-          masked[key] = this.options.maskChar!.repeat(8);
-        } else if (typeof value === 'object') {
-          masked[key] = mask(value);
-        }
-      }
-      return masked;
-    };
+    // Entries already logged are written out before the process ends
+    if (this.options.exitOnError) {
+      this.exit(1);
+    }
+  }
 
-    return mask(data);
+  /**
+   * Installs or removes the process exit hooks
+   * @private
+   * @param enabled - Whether the hooks should be installed
+   */
+  private setExitHooks(enabled: boolean): void {
+    if (enabled && !this.removeExitHooks) {
+      this.removeExitHooks = registerExitHooks((reason, error) => this.handleExitEvent(reason, error));
+    } else if (!enabled && this.removeExitHooks) {
+      this.removeExitHooks();
+      this.removeExitHooks = undefined;
+    }
   }
 
-  private async writeBufferedLogs(entries: LogEntry[]): Promise<void> {
-    if (this.options.asyncLogging) {
-      await Promise.all(entries.map(entry => this.writeLogEntry(entry)));
-    } else {
-      for (const entry of entries) {
-        await this.writeLogEntry(entry);
-      }
+  /**
+   * Installs or removes the SIGHUP handler reopening output files
+   * @private
+   * @param enabled - Whether SIGHUP should reopen the files
+   */
+  private setSighupHandler(enabled: boolean): void {
+    process.removeListener('SIGHUP', this.onSighup);
+    if (enabled) {
+      process.on('SIGHUP', this.onSighup);
     }
   }
 
-  private async writeLogEntry(entry: LogEntry): Promise<void> {
-    const { outputFile, maxSize, rotate, logFileMode } = this.options;
-    try {
-      if (rotate && existsSync(outputFile)) {
-        const { size } = await fsPromises.stat(outputFile);
-        if (size >= maxSize) {
-          this.rotateLogs();
-        }
-      }
-      await fsPromises.appendFile(
-        outputFile, 
-        JSON.stringify(entry) + '\n', 
-        { 
-          encoding: 'utf8',
-          mode: logFileMode
-        }
-      );
-    } catch (error) {
-      console.error('Failed to write log to file:', error);
+  /**
+   * Starts or stops writing entries forwarded by cluster workers, in the primary process
+   * @private
+   * @param enabled - Whether forwarded entries should be written
+   */
+  private setWorkerReceiver(enabled: boolean): void {
+    if (enabled && !cluster.isWorker && !this.stopReceiving) {
+      this.stopReceiving = receiveWorkerEntries((entry, worker) => this.writeToTransports({
+        ...entry,
+        metadata: { ...entry.metadata, workerId: worker.id }
+      }));
+    } else if (!enabled && this.stopReceiving) {
+      this.stopReceiving();
+      this.stopReceiving = undefined;
     }
+  }
 
-    if (this.options.compression && (await this.shouldRotate())) {
-      await this.compressRotatedLogs();
+  /**
+   * Logs the reason the process is ending and writes out pending entries
+   * @private
+   * @param reason - Exit event
+   * @param error - Error that crashed the process
+   */
+  private handleExitEvent(reason: ExitReason, error?: unknown): void {
+    switch (reason) {
+      case 'beforeExit':
+        break;
+      case 'exit':
+        this.info('Process exiting', { exitCode: process.exitCode ?? 0 });
+        break;
+      case 'uncaughtException':
+      case 'unhandledRejection':
+        this.fatal(reason === 'uncaughtException' ? 'Uncaught exception' : 'Unhandled rejection', { error });
+        break;
+      default:
+        this.warn(`Received ${reason}`, { signal: reason });
     }
+    this.flushSync();
   }
 
-  private async compressRotatedLogs(): Promise<void> {
-    // Implementation of log compression
-    // This would use zlib for gzip or another library for zip compression
+  /**
+   * Writes out pending entries synchronously, then ends the process
+   * @private
+   * @param code - Exit code
+   */
+  private exit(code: number): never {
+    if (!this.exiting) {
+      this.exiting = true;
+      this.flushSync();
+    }
+    process.exit(code);
+  }
+
+  /**
+   * Writes out entries buffered by any transport, including the summary of
+   * a run of repeated entries being collapsed
+   * @returns Promise resolving once all pending entries are written
+   * 
+   * @example
+   * ```typescript
+   * logger.info('Job finished');
+   * await logger.flush();
+   * ```
+   */
+  public async flush(): Promise<void> {
+    this.deduplicator.flush();
+    await Promise.all(this.transports.map(transport =>
+      transport.flush
+        ? transport.flush().catch(this.handleError.bind(this))
+        : undefined
+    ));
+  }
+
+  /**
+   * Writes out pending entries synchronously. Unlike `flush()`, the entries
+   * are on disk when it returns, so it can be used where asynchronous work
+   * no longer runs, such as `process.on('exit')` handlers. Transports
+   * without synchronous support are skipped.
+   * 
+   * @example
+   * ```typescript
+   * process.on('exit', () => logger.flushSync());
+   * ```
+   */
+  public flushSync(): void {
+    this.deduplicator.flush();
+    for (const transport of this.transports) {
+      try {
+        transport.flushSync?.();
+      } catch (error) {
+        this.handleError(error as Error);
+      }
+    }
   }
 
-  public destroy(): void {
-    if (this.flushTimeout) {
-      clearInterval(this.flushTimeout);
+  /**
+   * Logs a fatal entry, writes it and all pending entries out synchronously,
+   * then exits the process
+   * @param message - Error or message to log
+   * @param code - Exit code
+   * 
+   * @example
+   * ```typescript
+   * db.on('error', error => logger.fatalAndExit(error));
+   * ```
+   */
+  public fatalAndExit(message: LogInput, code: number = 1): never {
+    this.fatal(message);
+    return this.exit(code);
+  }
+
+  /**
+   * Closes the log files and opens them again by name. Use it after
+   * external tools such as logrotate moved the files, so that writing
+   * continues in new files instead of the moved ones. Entries logged
+   * before the call are written to the old files.
+   * @returns Promise resolving once the files are reopened
+   * 
+   * @example
+   * ```typescript
+   * process.on('SIGUSR2', () => logger.reopen());
+   * ```
+   */
+  public async reopen(): Promise<void> {
+    this.deduplicator.flush();
+    await Promise.all(this.transports.map(transport =>
+      transport.reopen
+        ? transport.reopen().catch(this.handleError.bind(this))
+        : undefined
+    ));
+  }
+
+  /**
+   * Closes all transports, flushing any pending entries.
+   * Child loggers share their parent's transports and leave them open.
+   * @returns Promise resolving once the final flush has completed
+   */
+  public async destroy(): Promise<void> {
+    if (this.parent) return;
+    this.setExitHooks(false);
+    this.setWorkerReceiver(false);
+    this.setSighupHandler(false);
+    this.deduplicator.flush();
+    this.rateLimiter.report();
+    await Promise.all(this.transports.map(transport => this.closeTransport(transport)));
+  }
+
+  /**
+   * Runs a function with metadata bound to its asynchronous call chain.
+   * Every entry logged within it, by any logger, includes the metadata;
+   * nested calls merge their metadata over the enclosing context.
+   * @param context - Metadata to bind, typically including a `correlationId`
+   * @param fn - Function to run
+   * @returns The return value of `fn`
+   * 
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   logger.runWithContext({ correlationId: req.headers['x-request-id'] }, next);
+   * });
+   * ```
+   */
+  public runWithContext<T>(context: LogMetadata, fn: () => T): T {
+    return runWithContext(context, fn);
+  }
+
+  /**
+   * Returns the metadata bound by the enclosing `runWithContext()` call
+   * @returns The active context, or undefined outside of `runWithContext()`
+   */
+  public getContext(): LogMetadata | undefined {
+    return getContext();
+  }
+
+  /**
+   * Starts timing an operation, logged with the `performance` type once done.
+   * Durations above `slowThreshold` are logged as warnings instead.
+   * @param label - Name of the measured operation
+   * @param metadata - Metadata included when the duration is logged
+   * @returns Timer whose `done()` logs and returns the duration in ms
+   * 
+   * @example
+   * ```typescript
+   * const timer = logger.startTimer('db.load');
+   * const rows = await db.load();
+   * timer.done({ rows: rows.length });
+   * ```
+   */
+  public startTimer(label: string, metadata: LogMetadata = {}): Timer {
+    return this.createTimer('performance', label, metadata);
+  }
+
+  /**
+   * Starts a profile on the first call for a label and ends it on the next,
+   * logging the duration with the `benchmark` type
+   * @param label - Name of the profiled section
+   * @param metadata - Metadata included when the duration is logged
+   * @returns The duration in ms when the profile ends, otherwise undefined
+   * 
+   * @example
+   * ```typescript
+   * logger.profile('render');
+   * render();
+   * logger.profile('render'); // logs "render completed in 12.345ms"
+   * ```
+   */
+  public profile(label: string, metadata: LogMetadata = {}): number | undefined {
+    const timer = this.profiles.get(label);
+    if (!timer) {
+      this.profiles.set(label, this.createTimer('benchmark', label, metadata));
+      return undefined;
     }
-    this.flushBuffer().catch(this.handleError.bind(this));
+
+    this.profiles.delete(label);
+    return timer.done(metadata);
   }
 
-  private async shouldRotate(): Promise<boolean> {
-    if (!this.options.outputFile || !this.options.rotate) return false;
-    
+  /**
+   * Runs a function and logs how long it took, like `startTimer()`.
+   * Failures are logged with `failed: true` and rethrown.
+   * @param label - Name of the measured operation
+   * @param fn - Synchronous or asynchronous function to measure
+   * @param metadata - Metadata included when the duration is logged
+   * @returns Promise resolving to the result of `fn`
+   * 
+   * @example
+   * ```typescript
+   * const users = await logger.time('users.fetch', () => api.getUsers());
+   * ```
+   */
+  public async time<T>(label: string, fn: () => T | Promise<T>, metadata: LogMetadata = {}): Promise<T> {
+    const timer = this.startTimer(label, metadata);
     try {
-      const stats = existsSync(this.options.outputFile) 
-        ? await fsPromises.stat(this.options.outputFile)
-        : null;
-      return stats !== null && stats.size >= this.options.maxSize;
-    } catch {
-      return false;
+      const result = await fn();
+      timer.done();
+      return result;
+    } catch (error) {
+      timer.done({ failed: true, error: error instanceof Error ? error.message : String(error) });
+      throw error;
     }
   }
 
+  /**
+   * Creates a timer logging its duration with the given type
+   * @private
+   * @param type - Log type used below the slow threshold
+   * @param label - Name of the measured operation
+   * @param metadata - Metadata included when the duration is logged
+   * @returns Running timer
+   */
+  private createTimer(type: LogLevel, label: string, metadata: LogMetadata): Timer {
+    const start = process.hrtime.bigint();
+    let duration: number | undefined;
+
+    return {
+      label,
+      elapsed: () => duration ?? getElapsedMs(start),
+      done: (doneMetadata?: LogMetadata) => {
+        if (duration !== undefined) return duration;
+        duration = getElapsedMs(start);
+
+        const { slowThreshold } = this.options;
+        const entryMetadata = { ...metadata, ...doneMetadata, label, duration };
+        if (slowThreshold > 0 && duration > slowThreshold) {
+          this.log('warn', `${label} took ${duration}ms, exceeding ${slowThreshold}ms`, {
+            ...entryMetadata,
+            threshold: slowThreshold
+          });
+        } else {
+          this.log(type, `${label} completed in ${duration}ms`, entryMetadata);
+        }
+        return duration;
+      }
+    };
+  }
+
+  /**
+   * Reads the correlation ID at `correlationIdPath` in the entry metadata
+   * @private
+   * @param metadata - Entry metadata
+   * @returns The correlation ID, if present
+   */
   private extractCorrelationId(metadata: LogMetadata): string | undefined {
     const { correlationIdPath } = this.options;
-    if (!correlationIdPath) return undefined;
+    if (!correlationIdPath || correlationIdPath.length === 0) return undefined;
 
     let value = metadata;
     for (const key of correlationIdPath) {
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview HTTP request logging middleware
+ * @module HttpLogger
+ * @description
+ * Connect-style middleware logging each request when it arrives and when its
+ * response finishes, with method, URL, status, duration, response size and
+ * client IP. Request IDs are read from or added to the `X-Request-ID` header
+ * and bound to the request's asynchronous context, so entries logged by the
+ * handlers are correlated with the request.
+ */
+
+import { randomBytes } from 'crypto';
+import { IncomingHttpHeaders, IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { Logger } from '../logger';
+import { HttpLoggerOptions, LogMetadata } from '../types';
+import { getElapsedMs } from '../utils/time';
+
+/** Header names redacted by default */
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+/**
+ * Request as seen by handlers after the middleware ran
+ *
+ * @property id - Request ID, taken from the request header or generated
+ * @property log - Child logger bound to the request ID
+ */
+export interface LoggedRequest extends IncomingMessage {
+    id?: string;
+    log?: Logger;
+}
+
+/**
+ * Connect-style middleware signature, also usable from Koa and Fastify hooks
+ */
+export type HttpMiddleware = (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => unknown) => unknown;
+
+/**
+ * Copies headers, replacing the values of redacted ones
+ * @private
+ * @param headers - Request or response headers
+ * @param redacted - Lowercase header names to redact
+ * @returns Headers safe to log
+ */
+const redactHeaders = (headers: IncomingHttpHeaders | OutgoingHttpHeaders, redacted: Set<string>): LogMetadata => {
+    const result: LogMetadata = {};
+    for (const [name, value] of Object.entries(headers)) {
+        result[name] = redacted.has(name.toLowerCase()) ? '[REDACTED]' : value;
+    }
+    return result;
+};
+
+/**
+ * Counts the bytes of the response body as it is written
+ * @private
+ * @param res - Server response
+ * @returns Function returning the number of body bytes written so far
+ */
+const countBytes = (res: ServerResponse): (() => number) => {
+    let bytes = 0;
+    const count = (chunk: unknown, encoding: unknown): void => {
+        if (chunk === undefined || chunk === null || typeof chunk === 'function') return;
+        bytes += Buffer.isBuffer(chunk) || chunk instanceof Uint8Array
+            ? chunk.length
+            : Buffer.byteLength(String(chunk), typeof encoding === 'string' ? encoding as BufferEncoding : undefined);
+    };
+
+    const write = res.write;
+    const end = res.end;
+    res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+        count(chunk, args[0]);
+        return (write as (...params: unknown[]) => boolean).call(this, chunk, ...args);
+    } as typeof res.write;
+    res.end = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+        count(chunk, args[0]);
+        return (end as (...params: unknown[]) => ServerResponse).call(this, chunk, ...args);
+    } as typeof res.end;
+
+    return () => bytes;
+};
+
+/**
+ * Resolves the client IP address of a request
+ * @private
+ * @param req - Incoming request
+ * @param trustProxy - Whether to honor `X-Forwarded-For`
+ * @returns Client IP, if known
+ */
+const getClientIp = (req: IncomingMessage, trustProxy: boolean): string | undefined => {
+    if (trustProxy) {
+        const forwarded = req.headers['x-forwarded-for'];
+        const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+        if (first) return first;
+    }
+    return req.socket?.remoteAddress;
+};
+
+/**
+ * Creates middleware logging HTTP requests through the given logger
+ *
+ * @remarks
+ * Arriving requests are logged with the `request` type. Finished responses
+ * are logged with the `response` type, `warn` for 4xx and `error` for 5xx
+ * statuses; requests closed before the response finished are logged as
+ * `warn`. The request ID is bound as `correlationId` both to `req.log`, a
+ * child logger, and to the asynchronous context of the remaining handlers,
+ * including on excluded paths.
+ *
+ * @param logger - Logger the entries are written to
+ * @param options - Middleware configuration
+ * @returns Middleware calling `next` within the request context
+ *
+ * @example
+ * ```typescript
+ * const httpLogger = createHttpLogger(logger, { exclude: ['/health'] });
+ *
+ * // Express / Connect
+ * app.use(httpLogger);
+ *
+ * // Koa
+ * app.use((ctx, next) => httpLogger(ctx.req, ctx.res, next));
+ *
+ * // Fastify
+ * fastify.addHook('onRequest', (request, reply, done) => httpLogger(request.raw, reply.raw, done));
+ * ```
+ */
+export const createHttpLogger = (logger: Logger, options: HttpLoggerOptions = {}): HttpMiddleware => {
+    const {
+        requestIdHeader = 'x-request-id',
+        generateRequestId = () => randomBytes(16).toString('hex'),
+        exclude = [],
+        logRequestStart = true,
+        logHeaders = false,
+        redactHeaders: redactedHeaders = DEFAULT_REDACTED_HEADERS,
+        trustProxy = false
+    } = options;
+    const headerName = requestIdHeader.toLowerCase();
+    const redacted = new Set(redactedHeaders.map(name => name.toLowerCase()));
+
+    const isExcluded = (path: string): boolean =>
+        exclude.some(pattern => typeof pattern === 'string' ? pattern === path : pattern.test(path));
+
+    return (req: LoggedRequest, res: ServerResponse, next?: (error?: unknown) => unknown): unknown => {
+        const start = process.hrtime.bigint();
+        const url = req.url ?? '/';
+        const incomingId = req.headers[headerName];
+        const requestId = (Array.isArray(incomingId) ? incomingId[0] : incomingId) || generateRequestId();
+        if (!res.headersSent) res.setHeader(requestIdHeader, requestId);
+
+        const log = logger.child({ correlationId: requestId });
+        req.id = requestId;
+        req.log = log;
+
+        if (isExcluded(url.split('?')[0])) {
+            return logger.runWithContext({ correlationId: requestId }, () => next?.());
+        }
+
+        const method = req.method ?? 'GET';
+        const request: LogMetadata = { method, url, ip: getClientIp(req, trustProxy) };
+        const getBytes = countBytes(res);
+
+        let logged = false;
+        const onDone = (): void => {
+            if (logged) return;
+            logged = true;
+
+            const duration = getElapsedMs(start);
+            const status = res.statusCode;
+            const metadata: LogMetadata = {
+                ...request,
+                status,
+                duration,
+                bytes: getBytes(),
+                ...(logHeaders ? { headers: redactHeaders(res.getHeaders(), redacted) } : {})
+            };
+
+            // Metadata goes first so that '%' in URLs is never interpolated
+            if (!res.writableFinished) {
+                log.warn(metadata, `${method} ${url} aborted after ${duration}ms`);
+            } else if (status >= 500) {
+                log.error(metadata, `${method} ${url} ${status} ${duration}ms`);
+            } else if (status >= 400) {
+                log.warn(metadata, `${method} ${url} ${status} ${duration}ms`);
+            } else {
+                log.response(metadata, `${method} ${url} ${status} ${duration}ms`);
+            }
+        };
+        res.once('finish', onDone);
+        res.once('close', onDone);
+
+        return logger.runWithContext({ correlationId: requestId }, () => {
+            if (logRequestStart) {
+                log.request({
+                    ...request,
+                    ...(logHeaders ? { headers: redactHeaders(req.headers, redacted) } : {})
+                }, `${method} ${url}`);
+            }
+            return next?.();
+        });
+    };
+};
@@ -0,0 +1,2 @@
+export { createHttpLogger } from './http';
+export type { HttpMiddleware, LoggedRequest } from './http';
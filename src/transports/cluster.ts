@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Cluster transport
+ * @module ClusterTransport
+ * @description
+ * Forwards entries from `cluster` worker processes to the primary process
+ * over the IPC channel, so that a single process owns the console and file
+ * output. Several processes appending to and rotating the same file would
+ * otherwise overwrite each other's rotated files.
+ */
+
+import cluster, { Worker } from 'cluster';
+import { LogEntry, LogSeverity, Transport } from '../types';
+
+/**
+ * Configuration for the cluster transport
+ *
+ * @property onError - Receives errors sending entries to the primary
+ */
+export interface ClusterTransportOptions {
+    onError?: (error: Error) => void;
+}
+
+/** @private Type of the IPC messages carrying log entries */
+const ENTRY_MESSAGE = 'universal-logger-pro:entry';
+
+/** @private IPC message carrying a log entry */
+interface EntryMessage {
+    type: typeof ENTRY_MESSAGE;
+    entry: LogEntry;
+}
+
+/**
+ * Tests whether an IPC message carries a log entry
+ * @private
+ * @param message - Message received from a worker
+ */
+const isEntryMessage = (message: unknown): message is EntryMessage =>
+    typeof message === 'object' && message !== null && (message as EntryMessage).type === ENTRY_MESSAGE;
+
+/**
+ * Transport sending entries to the primary process
+ *
+ * @remarks
+ * Created by the logger of a worker process when `clusterMode` is enabled.
+ * Entries are sent unformatted and written by the primary's transports,
+ * in the order each worker logged them.
+ */
+export class ClusterTransport implements Transport {
+    public readonly name = 'cluster';
+    public readonly raw = true;
+    public minLevel?: LogSeverity;
+    private readonly onError: (error: Error) => void;
+
+    /** @private Settles once every entry sent so far has been handed to the IPC channel */
+    private sending: Promise<void> = Promise.resolve();
+
+    constructor(options: ClusterTransportOptions = {}) {
+        this.onError = options.onError ?? (error => console.error('Logging error:', error));
+    }
+
+    /**
+     * Sends an entry to the primary process
+     * @param entry - Log entry being written
+     */
+    public write(entry: LogEntry): void {
+        if (!process.send || !process.connected) {
+            this.onError(new Error('Cannot forward log entry: not connected to the primary process'));
+            return;
+        }
+
+        const message: EntryMessage = { type: ENTRY_MESSAGE, entry };
+        this.sending = new Promise(resolve => {
+            process.send!(message, undefined, undefined, error => {
+                if (error) this.onError(error);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Waits until the entries sent so far have left this process
+     */
+    public flush(): Promise<void> {
+        return this.sending;
+    }
+}
+
+/**
+ * Writes entries forwarded by worker processes, in the primary process
+ *
+ * @param onEntry - Receives each forwarded entry and the worker that sent it
+ * @returns Function that stops listening
+ */
+export const receiveWorkerEntries = (onEntry: (entry: LogEntry, worker: Worker) => void): (() => void) => {
+    const onMessage = (worker: Worker, message: unknown) => {
+        if (isEntryMessage(message)) onEntry(message.entry, worker);
+    };
+
+    cluster.on('message', onMessage);
+    return () => {
+        cluster.removeListener('message', onMessage);
+    };
+};
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Console transport
+ * @module ConsoleTransport
+ * @description
+ * Writes formatted log lines to the process console, routing warnings and
+ * errors to `console.warn` and `console.error` respectively.
+ */
+
+import { writeSync } from 'fs';
+import { ConsoleTransportOptions, Formatter, LogEntry, LogFormat, LogSeverity, Transport } from '../types';
+import { getSeverity } from '../utils/levels';
+
+/**
+ * Built-in transport writing to the console
+ * 
+ * @example
+ * ```typescript
+ * const logger = Logger.create('api', {
+ *   transports: [new ConsoleTransport({ minLevel: 'info' })]
+ * });
+ * ```
+ */
+export class ConsoleTransport implements Transport {
+    public readonly name = 'console';
+    public minLevel?: LogSeverity;
+    public formatter?: Formatter | LogFormat;
+    private readonly sync: boolean;
+
+    constructor(options: ConsoleTransportOptions = {}) {
+        this.minLevel = options.minLevel;
+        this.formatter = options.formatter;
+        this.sync = options.sync ?? false;
+    }
+
+    /**
+     * Writes a formatted line using the console method matching its severity
+     * @param entry - Log entry being written
+     * @param line - Formatted log line
+     */
+    public write(entry: LogEntry, line: string): void {
+        if (this.sync) {
+            const severity = getSeverity(entry.level);
+            writeSync(severity === 'info' || severity === 'debug' || severity === 'trace' ? 1 : 2, `${line}\n`);
+            return;
+        }
+
+        switch (getSeverity(entry.level)) {
+            case 'error':
+            case 'fatal':
+                console.error(line);
+                break;
+            case 'warn':
+                console.warn(line);
+                break;
+            default:
+                console.log(line);
+        }
+    }
+}
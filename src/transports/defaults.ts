@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Default transports
+ * @module DefaultTransports
+ * @description
+ * Creates the console and file transports configured by the logger's
+ * output options, shared by the logger and by the worker thread used with
+ * `asyncLogging: 'worker'`, along with the writer formatting entries for
+ * them outside the logger.
+ */
+
+import { ConsoleTransportOptions, Formatter, LogEntry, LogFormat, LoggerOptions, Transport } from '../types';
+import { createFormatter, FormatterSettings } from '../formatters/create';
+import { defaultLogLevels, getSeverity } from '../utils/levels';
+import { ConsoleTransport } from './console';
+import { FileTransport } from './file';
+
+/**
+ * Logger settings the default transports are configured from
+ */
+export type OutputSettings = Pick<Required<LoggerOptions>,
+    | 'console'
+    | 'outputFile'
+    | 'maxSize'
+    | 'rotate'
+    | 'rotateCount'
+    | 'logFileMode'
+    | 'compression'
+    | 'compressFormat'
+    | 'bufferSize'
+    | 'flushInterval'
+    | 'datePattern'
+    | 'timeZone'
+    | 'maxAgeDays'
+>;
+
+/**
+ * Options of the transports created alongside the logger settings
+ *
+ * @property console - Options of the console transport
+ * @property onError - Receives errors of file writes no caller awaits
+ */
+export interface OutputTransportOptions {
+    console?: ConsoleTransportOptions;
+    onError?: (error: Error) => void;
+}
+
+/**
+ * Creates the transports selected by the `console` and `outputFile` options
+ *
+ * @param settings - Logger output settings
+ * @param options - Options of the created transports
+ * @returns Console and/or file transport
+ */
+export const createOutputTransports = (
+    settings: OutputSettings,
+    options: OutputTransportOptions = {}
+): Transport[] => {
+    const transports: Transport[] = [];
+
+    if (settings.console) {
+        transports.push(new ConsoleTransport(options.console));
+    }
+
+    if (settings.outputFile) {
+        transports.push(new FileTransport({
+            filename: settings.outputFile,
+            maxSize: settings.maxSize,
+            rotate: settings.rotate,
+            rotateCount: settings.rotateCount,
+            logFileMode: settings.logFileMode,
+            compression: settings.compression,
+            compressFormat: settings.compressFormat,
+            bufferSize: settings.bufferSize,
+            flushInterval: settings.flushInterval,
+            datePattern: settings.datePattern,
+            timeZone: settings.timeZone,
+            maxAgeDays: settings.maxAgeDays,
+            onError: options.onError
+        }));
+    }
+
+    return transports;
+};
+
+/**
+ * Logger settings an output writer formats and writes entries with
+ */
+export type OutputWriterSettings = FormatterSettings & OutputSettings & {
+    format: LogFormat;
+    consoleJson: boolean;
+};
+
+/**
+ * Formats entries and writes them to the default transports
+ *
+ * @property transports - Transports written to
+ * @property write - Formats an entry for each transport accepting its severity and writes it,
+ * or writes the line given when the entry was already formatted
+ */
+export interface OutputWriter {
+    readonly transports: Transport[];
+    write(entry: LogEntry, line?: string): void;
+}
+
+/**
+ * Creates the default transports with a writer formatting entries for them
+ *
+ * @remarks
+ * Each transport gets its formatter as it would in the logger: its own
+ * `formatter`, or else the format selected by `format` and `consoleJson`.
+ * Entries are formatted at most once per formatter.
+ *
+ * @param settings - Logger output and formatting settings
+ * @param options - Options of the created transports
+ * @returns Writer for the console and/or file transport
+ */
+export const createOutputWriter = (
+    settings: OutputWriterSettings,
+    options: OutputTransportOptions = {}
+): OutputWriter => {
+    const onError = options.onError ?? (error => console.error('Logging error:', error));
+    const transports = createOutputTransports(settings, options);
+
+    const builtIn: Partial<Record<LogFormat, Formatter>> = {};
+    const formatters = new Map<Transport, Formatter>();
+    for (const transport of transports) {
+        const { formatter } = transport;
+        if (formatter && typeof formatter !== 'string') {
+            formatters.set(transport, formatter);
+        } else {
+            const name = formatter || (settings.consoleJson ? 'json' : settings.format);
+            formatters.set(transport, builtIn[name] ??= createFormatter(name, settings));
+        }
+    }
+
+    return {
+        transports,
+
+        write(entry: LogEntry, line?: string): void {
+            const messageLevel = defaultLogLevels[getSeverity(entry.level)];
+            const lines = new Map<Formatter, string>();
+
+            for (const transport of transports) {
+                if (transport.minLevel && messageLevel < defaultLogLevels[transport.minLevel]) continue;
+                try {
+                    const formatter = formatters.get(transport)!;
+                    const output = line || (lines.get(formatter) ?? formatter.format(entry));
+                    lines.set(formatter, output);
+                    const result = transport.write(entry, output);
+                    if (result) result.catch(onError);
+                } catch (error) {
+                    onError(error as Error);
+                }
+            }
+        }
+    };
+};
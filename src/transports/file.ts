@@ -0,0 +1,634 @@
+/**
+ * @fileoverview File transport
+ * @module FileTransport
+ * @description
+ * Appends log entries to a file with size-based rotation, keeping a
+ * configurable number of rotated files next to the active one. Files can
+ * additionally be split per period by naming them from a date pattern, and
+ * old files pruned by age. Entries are batched in memory and written in
+ * order through a single append stream, whose size is tracked as it is
+ * written. The file is reopened when it is moved or deleted, e.g. by an
+ * external logrotate. Rotated files can be gzip-compressed in the background.
+ */
+
+import {
+    appendFileSync, createReadStream, createWriteStream, existsSync, fstatSync, mkdirSync, renameSync, statSync,
+    WriteStream, promises as fsPromises
+} from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { pipeline } from 'stream';
+import { promisify } from 'util';
+import { createGzip } from 'zlib';
+import { FileTransportOptions, Formatter, LogEntry, LogFormat, LogSeverity, Transport } from '../types';
+import { JsonFormatter } from '../formatters';
+import { formatDate } from '../utils/time';
+
+const pipelineAsync = promisify(pipeline);
+
+/** @private Patterns matching each `formatDate()` token */
+const DATE_TOKEN_PATTERNS: Record<string, string> = {
+    YYYY: '\\d{4}',
+    MM: '\\d{2}',
+    DD: '\\d{2}',
+    HH: '\\d{2}',
+    mm: '\\d{2}',
+    ss: '\\d{2}',
+    SSS: '\\d{3}',
+    Z: '(?:Z|[+-]\\d{2}:\\d{2})'
+};
+
+/**
+ * Escapes a string for literal use in a regular expression
+ * @private
+ * @param text - Text to escape
+ */
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** @private Minimum time in ms between checks that the file was not moved or deleted */
+const MOVE_CHECK_INTERVAL = 1000;
+
+/** @private Longest time in ms `flushSync()` waits for a write already handed to the stream */
+const WRITE_TIMEOUT = 1000;
+
+/** @private Batch of lines taken off the write chain, until its write completes */
+interface Batch {
+    lines: string[];
+    /** Stream the batch was handed to, once the file is ready */
+    stream?: WriteStream;
+    /** File size once the batch is written */
+    end?: number;
+}
+
+/**
+ * Built-in transport writing JSON lines to a rotating log file
+ * 
+ * @remarks
+ * With a `datePattern`, the date is inserted before the file extension
+ * (`app.log` becomes `app-2026-10-18.log`) and a new file is started whenever
+ * the formatted date changes, so 'YYYY-MM-DD' rotates daily and
+ * 'YYYY-MM-DD-HH' hourly. Size-based rotation still applies within a period.
+ * 
+ * @example
+ * ```typescript
+ * const logger = Logger.create('api', {
+ *   transports: [
+ *     new ConsoleTransport(),
+ *     new FileTransport({ filename: 'logs/errors.log', minLevel: 'error' })
+ *   ]
+ * });
+ * ```
+ */
+export class FileTransport implements Transport {
+    public readonly name = 'file';
+    public minLevel?: LogSeverity;
+    public formatter: Formatter | LogFormat;
+
+    /** @private Resolved transport configuration */
+    private options: Required<Omit<FileTransportOptions, 'minLevel' | 'formatter' | 'onError'>>;
+
+    /** @private Receives errors of writes no caller is waiting for */
+    private readonly onError: (error: Error) => void;
+
+    /** @private Lines waiting for the next batched write */
+    private buffer: string[] = [];
+    private flushTimeout?: NodeJS.Timeout;
+
+    /** @private Tail of the write chain, keeping batches strictly ordered */
+    private writing: Promise<void> = Promise.resolve();
+
+    /** @private Batches queued on the write chain that have not started writing */
+    private queued: string[][] = [];
+
+    /** @private Batch currently being written */
+    private current?: Batch;
+
+    /** @private Path currently written to, resolved from the date pattern */
+    private currentFile: string;
+
+    /** @private Append stream to the current file, opened on the first write */
+    private stream?: WriteStream;
+
+    /** @private Size of the current file, including everything written to the stream */
+    private bytes = 0;
+
+    /** @private File descriptor and inode of the file the stream has open */
+    private fd?: number;
+    private inode?: number;
+
+    /** @private Time of the last check that the file was not moved */
+    private movedCheckedAt = 0;
+
+    /** @private Compression or pruning of old files currently in progress */
+    private housekeeping: Promise<void> = Promise.resolve();
+
+    /** @private Flushes pending lines once the event loop drains */
+    private readonly onBeforeExit = () => {
+        this.flushBuffer().catch(this.onError);
+    };
+
+    constructor(options: FileTransportOptions) {
+        this.minLevel = options.minLevel;
+        this.formatter = options.formatter || new JsonFormatter();
+        this.onError = options.onError ?? (error => console.error('Failed to write log to file:', error));
+        this.options = {
+            filename: options.filename,
+            maxSize: options.maxSize ?? 10 * 1024 * 1024, // 10MB
+            rotate: options.rotate ?? true,
+            rotateCount: options.rotateCount ?? 5,
+            logFileMode: options.logFileMode ?? 0o666,
+            compression: options.compression ?? false,
+            compressFormat: options.compressFormat ?? 'gzip',
+            bufferSize: options.bufferSize ?? 1000,
+            flushInterval: options.flushInterval ?? 5000,
+            datePattern: options.datePattern ?? '',
+            timeZone: options.timeZone ?? 'UTC',
+            maxAgeDays: options.maxAgeDays ?? 0
+        };
+        this.currentFile = this.resolveFilename();
+
+        this.ensureLogDirectory();
+
+        if (this.options.bufferSize > 0) {
+            this.setupBuffering();
+        }
+
+        // Remove archives left incomplete by a previous process, then finish those left uncompressed
+        const { compression, maxAgeDays } = this.options;
+        this.housekeeping = this.removeTempArchives()
+            .then(() => compression || maxAgeDays > 0 ? this.runHousekeeping() : undefined)
+            .catch(this.onError);
+    }
+
+    /**
+     * Queues a formatted line, writing the batch once `bufferSize` is reached.
+     * Without buffering the line is appended immediately.
+     * @param entry - Log entry being written
+     * @param line - Formatted log line
+     */
+    public write(entry: LogEntry, line: string): Promise<void> | void {
+        if (this.options.bufferSize <= 0) {
+            return this.appendLines([line]);
+        }
+
+        this.buffer.push(line);
+        if (this.buffer.length >= this.options.bufferSize) {
+            return this.flushBuffer();
+        }
+    }
+
+    /**
+     * Writes out buffered lines and waits for all pending writes
+     */
+    public flush(): Promise<void> {
+        return this.flushBuffer();
+    }
+
+    /**
+     * Synchronously writes buffered lines and batches still waiting on the
+     * write chain, for use when the process is about to exit. The batch
+     * being written is waited for if it was already handed to the file
+     * system, and otherwise written here first.
+     */
+    public flushSync(): void {
+        const current = this.current;
+        this.current = undefined;
+        const lines = [
+            ...(current && !this.waitForWrite(current) ? current.lines : []),
+            ...this.queued.flat(),
+            ...this.buffer
+        ];
+        this.queued = [];
+        this.buffer = [];
+        if (lines.length === 0) return;
+
+        // Appending beside the open stream is safe; rotation is left to the next asynchronous write
+        const chunk = lines.join('\n') + '\n';
+        appendFileSync(this.currentFile, chunk, { encoding: 'utf8', mode: this.options.logFileMode });
+        this.bytes += Buffer.byteLength(chunk);
+    }
+
+    /**
+     * Closes the file and opens it again by name before the next write.
+     * Call this after the file was moved, e.g. from a logrotate `postrotate`
+     * script, so writing resumes in a new file at the original path.
+     * @returns Promise resolving once the old file is closed
+     */
+    public reopen(): Promise<void> {
+        // Lines logged before the call still belong in the old file
+        this.flushBuffer().catch(this.onError);
+        const reopen = this.writing.then(() => this.closeStream());
+        this.writing = reopen.catch(() => undefined);
+        return reopen;
+    }
+
+    /**
+     * Stops the flush timer, writes out any buffered lines, closes the file
+     * and waits for pending compression to finish
+     */
+    public async close(): Promise<void> {
+        if (this.flushTimeout) {
+            clearInterval(this.flushTimeout);
+            this.flushTimeout = undefined;
+        }
+        process.removeListener('beforeExit', this.onBeforeExit);
+        try {
+            await this.flushBuffer();
+        } finally {
+            await this.closeStream();
+            await this.housekeeping;
+        }
+    }
+
+    /**
+     * Rotates log files when size limit is reached, shifting both plain
+     * and compressed archives so at most `rotateCount` are kept
+     * @private
+     */
+    private rotateLogs() {
+        const { rotateCount } = this.options;
+        const filename = this.currentFile;
+        for (let i = rotateCount - 1; i > 0; i--) {
+            for (const extension of ['', '.gz']) {
+                const oldFile = `${filename}.${i}${extension}`;
+                const newFile = `${filename}.${i + 1}${extension}`;
+                if (existsSync(oldFile)) {
+                    renameSync(oldFile, newFile);
+                }
+            }
+        }
+        renameSync(filename, `${filename}.1`);
+    }
+
+    private ensureLogDirectory(): void {
+        const dir = dirname(this.options.filename);
+        try {
+            if (!existsSync(dir)) {
+                mkdirSync(dir, { recursive: true });
+            }
+        } catch (error) {
+            console.error(`Failed to create log directory: ${dir}`, error);
+        }
+    }
+
+    private setupBuffering(): void {
+        if (this.options.flushInterval) {
+            this.flushTimeout = setInterval(() => {
+                this.flushBuffer().catch(this.onError);
+            }, this.options.flushInterval);
+            // The timer alone should not keep the process alive
+            this.flushTimeout.unref();
+        }
+        process.on('beforeExit', this.onBeforeExit);
+    }
+
+    private flushBuffer(): Promise<void> {
+        if (this.buffer.length === 0) return this.writing;
+
+        const lines = this.buffer;
+        this.buffer = [];
+
+        return this.appendLines(lines);
+    }
+
+    /**
+     * Schedules a batch of lines behind any write already in progress
+     * @private
+     * @param lines - Formatted lines to append
+     * @returns Promise settling once the batch is written
+     */
+    private appendLines(lines: string[]): Promise<void> {
+        this.queued.push(lines);
+        const write = this.writing.then(async () => {
+            // Skip batches already written by flushSync()
+            const index = this.queued.indexOf(lines);
+            if (index === -1) return;
+            this.queued.splice(index, 1);
+
+            const batch: Batch = { lines };
+            this.current = batch;
+            try {
+                await this.writeLines(batch);
+            } finally {
+                if (this.current === batch) this.current = undefined;
+            }
+        });
+        this.writing = write.catch(() => undefined);
+        return write;
+    }
+
+    /**
+     * Resolves the path to write to for the given time
+     * @private
+     * @param date - Time of the write
+     * @returns The configured filename, with the formatted date inserted before its extension when a date pattern is set
+     */
+    private resolveFilename(date: Date = new Date()): string {
+        const { filename, datePattern, timeZone } = this.options;
+        if (!datePattern) return filename;
+
+        const extension = extname(filename);
+        const stem = filename.slice(0, filename.length - extension.length);
+        return `${stem}-${formatDate(date, datePattern, timeZone)}${extension}`;
+    }
+
+    /**
+     * Appends a batch of lines in a single write, rotating first if needed.
+     * A batch taken over by `flushSync()` meanwhile is not written again.
+     * @private
+     * @param batch - Formatted lines to append
+     */
+    private async writeLines(batch: Batch): Promise<void> {
+        const { compression, maxAgeDays } = this.options;
+        const chunk = batch.lines.join('\n') + '\n';
+        const size = Buffer.byteLength(chunk);
+
+        const filename = this.resolveFilename();
+        if (filename !== this.currentFile) {
+            // A new period started: archive the previous file
+            await this.closeStream();
+            const previousFile = this.currentFile;
+            this.currentFile = filename;
+            if (compression || maxAgeDays > 0) {
+                await this.housekeeping;
+                this.scheduleHousekeeping(previousFile);
+            }
+        }
+
+        if (this.stream && await this.wasMoved()) {
+            // Moved or deleted by another process: keep writing under the configured name
+            await this.closeStream();
+        }
+
+        // A stream that failed is replaced, retrying once the cause is fixed
+        if (!this.stream || this.stream.destroyed) {
+            this.openStream();
+        }
+
+        if (this.shouldRotate(size)) {
+            // The stream is closed first so no write lands in the rotated file,
+            // and archives are never shifted underneath a running compression
+            await this.closeStream();
+            await this.housekeeping;
+            this.rotateLogs();
+            if (compression) {
+                this.scheduleHousekeeping();
+            }
+            this.openStream();
+        }
+
+        if (this.current !== batch) return;
+        batch.stream = this.stream;
+        batch.end = this.bytes + size;
+        try {
+            await this.writeChunk(this.stream!, chunk);
+        } catch (error) {
+            // The stream was withdrawn by flushSync(), which wrote the batch
+            if (this.current !== batch) return;
+            throw error;
+        }
+        if (this.current === batch) this.bytes += size;
+    }
+
+    /**
+     * Blocks until a batch handed to the stream has reached the file. If it
+     * cannot be confirmed, the stream is destroyed so that its pending write
+     * never happens and the caller writes the batch instead.
+     * @private
+     * @param batch - Batch being written
+     * @returns True if the batch is in the file
+     */
+    private waitForWrite(batch: Batch): boolean {
+        const { stream, end } = batch;
+        // Not handed to a stream yet: the asynchronous path will skip it
+        if (!stream || end === undefined) return false;
+
+        const fd = stream === this.stream ? this.fd : undefined;
+        if (fd !== undefined) {
+            // The write runs on the thread pool, so it completes while this thread waits
+            const sleep = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+            const deadline = Date.now() + WRITE_TIMEOUT;
+            try {
+                while (fstatSync(fd).size < end && Date.now() < deadline) {
+                    Atomics.wait(sleep, 0, 0, 1);
+                }
+                if (fstatSync(fd).size >= end) {
+                    this.bytes = Math.max(this.bytes, end);
+                    return true;
+                }
+            } catch {
+                // Fall through and write the batch synchronously
+            }
+        }
+
+        stream.destroy();
+        if (this.stream === stream) this.stream = undefined;
+        return false;
+    }
+
+    /**
+     * Opens an append stream to the current file, reading its size once
+     * @private
+     */
+    private openStream(): void {
+        try {
+            this.bytes = existsSync(this.currentFile) ? statSync(this.currentFile).size : 0;
+        } catch {
+            this.bytes = 0;
+        }
+
+        const stream = createWriteStream(this.currentFile, { flags: 'a', mode: this.options.logFileMode });
+        // Errors such as EACCES or ENOSPC destroy the stream and fail the pending write, which reports them
+        stream.on('error', () => undefined);
+        stream.once('open', (fd: number) => {
+            if (this.stream !== stream) return;
+            this.fd = fd;
+            try {
+                this.inode = fstatSync(fd).ino;
+            } catch {
+                this.inode = undefined;
+            }
+        });
+        this.fd = undefined;
+        this.inode = undefined;
+        this.stream = stream;
+    }
+
+    /**
+     * Tests, at most once per second, whether the open file was moved or
+     * deleted, by comparing the inode at its path with the one open
+     * @private
+     * @returns True if the path no longer refers to the open file
+     */
+    private async wasMoved(): Promise<boolean> {
+        const now = Date.now();
+        if (this.inode === undefined || now - this.movedCheckedAt < MOVE_CHECK_INTERVAL) return false;
+        this.movedCheckedAt = now;
+
+        try {
+            return (await fsPromises.stat(this.currentFile)).ino !== this.inode;
+        } catch {
+            return true;
+        }
+    }
+
+    /**
+     * Ends the current stream, waiting until its file descriptor is closed
+     * @private
+     */
+    private closeStream(): Promise<void> {
+        const stream = this.stream;
+        this.stream = undefined;
+        if (!stream || stream.destroyed) return Promise.resolve();
+
+        return new Promise(resolve => {
+            stream.once('close', resolve);
+            stream.end();
+        });
+    }
+
+    /**
+     * Writes a chunk to a stream
+     * @private
+     * @param stream - Stream to write to
+     * @param chunk - Text to write
+     * @returns Promise settling once the chunk is handed to the file system
+     */
+    private writeChunk(stream: WriteStream, chunk: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            stream.write(chunk, 'utf8', error => error ? reject(error) : resolve());
+        });
+    }
+
+    /**
+     * Starts compressing rotated files and pruning old ones without blocking writes
+     * @private
+     * @param previousFile - File of an ended period to archive as well
+     */
+    private scheduleHousekeeping(previousFile?: string): void {
+        this.housekeeping = this.runHousekeeping(previousFile).catch(this.onError);
+    }
+
+    private async runHousekeeping(previousFile?: string): Promise<void> {
+        if (this.options.compression) {
+            if (previousFile) {
+                await this.compressRotatedLogs(previousFile);
+                if (existsSync(previousFile)) {
+                    await this.compressFile(previousFile);
+                }
+            }
+            await this.compressRotatedLogs(this.currentFile);
+        }
+
+        if (this.options.maxAgeDays > 0) {
+            await this.pruneOldLogs();
+        }
+    }
+
+    /**
+     * Compresses every rotated file that has no archive yet
+     * @private
+     * @param filename - Active file whose numbered rotations are compressed
+     */
+    private async compressRotatedLogs(filename: string): Promise<void> {
+        const { rotateCount } = this.options;
+        for (let i = 1; i <= rotateCount; i++) {
+            const rotatedFile = `${filename}.${i}`;
+            if (existsSync(rotatedFile)) {
+                await this.compressFile(rotatedFile);
+            }
+        }
+    }
+
+    /**
+     * Gzips a file into `<file>.gz`. The archive is written to a temporary
+     * path and renamed into place before the original is removed, so an
+     * interrupted compression never loses the rotated data.
+     * @private
+     * @param file - Path of the file to compress
+     */
+    private async compressFile(file: string): Promise<void> {
+        const archive = `${file}.gz`;
+        const tempArchive = `${archive}.tmp`;
+
+        await pipelineAsync(
+            createReadStream(file),
+            createGzip(),
+            createWriteStream(tempArchive, { mode: this.options.logFileMode })
+        );
+        await fsPromises.rename(tempArchive, archive);
+        await fsPromises.unlink(file);
+    }
+
+    /**
+     * Deletes the temporary archives of compressions that were interrupted,
+     * as their original files are still in place
+     * @private
+     */
+    private async removeTempArchives(): Promise<void> {
+        const dir = dirname(this.options.filename);
+        const pattern = this.getGeneratedNamePattern();
+
+        for (const file of await fsPromises.readdir(dir)) {
+            if (file.endsWith('.gz.tmp') && pattern.test(file.slice(0, -'.tmp'.length))) {
+                await fsPromises.unlink(join(dir, file));
+            }
+        }
+    }
+
+    /**
+     * Builds a pattern matching only the names this transport generates:
+     * `app.log.N[.gz]` and, with a date pattern, `app-<date>.log[.N][.gz]`
+     * @private
+     * @returns Pattern for file names within the log directory
+     */
+    private getGeneratedNamePattern(): RegExp {
+        const { filename, datePattern } = this.options;
+        const name = basename(filename);
+        const extension = extname(name);
+        const stem = name.slice(0, name.length - extension.length);
+
+        const shapes = [`${escapeRegExp(name)}\\.\\d+`];
+        if (datePattern) {
+            const date = datePattern
+                .split(/(YYYY|MM|DD|HH|mm|ss|SSS|Z)/)
+                .map((part, index) => index % 2 ? DATE_TOKEN_PATTERNS[part] : escapeRegExp(part))
+                .join('');
+            shapes.push(`${escapeRegExp(stem)}-${date}${escapeRegExp(extension)}(?:\\.\\d+)?`);
+        }
+        return new RegExp(`^(?:${shapes.join('|')})(?:\\.gz)?$`);
+    }
+
+    /**
+     * Deletes dated and rotated files older than `maxAgeDays`, based on
+     * their modification time. Only file names this transport generates are
+     * considered, and the file currently written is never removed.
+     * @private
+     */
+    private async pruneOldLogs(): Promise<void> {
+        const { filename, maxAgeDays } = this.options;
+        const dir = dirname(filename);
+        const pattern = this.getGeneratedNamePattern();
+        const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+        for (const file of await fsPromises.readdir(dir)) {
+            if (!pattern.test(file)) continue;
+
+            const path = join(dir, file);
+            if (path === join(this.currentFile)) continue;
+
+            const { mtimeMs } = await fsPromises.stat(path);
+            if (mtimeMs < cutoff) {
+                await fsPromises.unlink(path);
+            }
+        }
+    }
+
+    /**
+     * Tests whether appending would take a non-empty file past `maxSize`
+     * @private
+     * @param size - Bytes about to be written
+     */
+    private shouldRotate(size: number): boolean {
+        return this.options.rotate && this.bytes > 0 && this.bytes + size > this.options.maxSize;
+    }
+}
@@ -0,0 +1,5 @@
+export { ConsoleTransport } from './console';
+export { FileTransport } from './file';
+export { createOutputTransports } from './defaults';
+export { WorkerTransport } from './worker';
+export { ClusterTransport, receiveWorkerEntries } from './cluster';
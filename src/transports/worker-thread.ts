@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Worker thread entry point
+ * @module WorkerThread
+ * @description
+ * Runs inside the worker started by `WorkerTransport`. Builds the console
+ * and file transports from the logger's settings, formats and writes the
+ * entries it receives, and reports progress through the shared state so the
+ * logging thread can apply backpressure and drain on exit.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { createOutputWriter } from './defaults';
+import { WorkerEntry, WorkerSettings } from './worker';
+
+const { settings, state } = workerData as { settings: WorkerSettings; state: Int32Array };
+
+/** @private Indexes into the shared state, matching `WorkerTransport` */
+const PROCESSED = 0;
+const FLUSHED = 1;
+
+/**
+ * Reports an error to the logging thread
+ * @private
+ * @param error - Error raised while writing
+ */
+const reportError = (error: unknown): void => {
+    const { name, message, stack } = error instanceof Error ? error : new Error(String(error));
+    parentPort!.postMessage({ type: 'error', name, message, stack });
+};
+
+// Console output goes straight to the file descriptors, as the worker's
+// `console` is relayed through the logging thread and lost on exit
+const output = createOutputWriter(settings, { console: { sync: true }, onError: reportError });
+const { transports } = output;
+
+/**
+ * Flushes every transport
+ * @private
+ */
+const flushAll = (): Promise<unknown> =>
+    Promise.all(transports.map(transport => transport.flush?.().catch(reportError)));
+
+parentPort!.on('message', async (message: { type: string; entries?: WorkerEntry[]; id?: number }) => {
+    switch (message.type) {
+        case 'entries':
+            message.entries!.forEach(({ entry, line }) => output.write(entry, line));
+            Atomics.add(state, PROCESSED, message.entries!.length);
+            Atomics.notify(state, PROCESSED);
+            break;
+        case 'flush':
+            await flushAll();
+            if (Atomics.load(state, FLUSHED) < message.id!) {
+                Atomics.store(state, FLUSHED, message.id!);
+            }
+            Atomics.notify(state, FLUSHED);
+            parentPort!.postMessage({ type: 'flushed', id: message.id });
+            break;
+        case 'reopen':
+            await Promise.all(transports.map(transport => transport.reopen?.().catch(reportError)));
+            break;
+        case 'close':
+            await Promise.all(transports.map(transport => transport.close?.().catch(reportError)));
+            parentPort!.close();
+            break;
+    }
+});
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview Worker thread transport
+ * @module WorkerTransport
+ * @description
+ * Ships raw entries to a `worker_threads` worker that formats them and
+ * writes the console and file output, keeping that work off the logging
+ * thread. Entries are sent in batches; a shared counter of processed entries
+ * bounds the queue and lets pending entries be drained synchronously when
+ * the process exits. If the worker stops unexpectedly, output continues on
+ * the logging thread.
+ */
+
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+import { BackpressurePolicy, LogEntry, LogSeverity, Transport } from '../types';
+import { createOutputWriter, OutputWriter, OutputWriterSettings } from './defaults';
+
+/**
+ * Logger settings the worker builds its formatters and transports from
+ */
+export type WorkerSettings = OutputWriterSettings;
+
+/**
+ * Configuration for the worker transport
+ *
+ * @property settings - Output and formatting settings, passed to the worker
+ * @property queueSize - Entries sent or queued but not yet written before backpressure applies
+ * @property backpressure - Behavior when the queue is full
+ * @property onError - Receives errors raised in the worker
+ */
+export interface WorkerTransportOptions {
+    settings: WorkerSettings;
+    queueSize?: number;
+    backpressure?: BackpressurePolicy;
+    onError?: (error: Error) => void;
+}
+
+/**
+ * Entry sent to the worker, with its line when formatted on the logging thread
+ *
+ * @property entry - Log entry
+ * @property line - Formatted line, or an empty string for the worker to format the entry
+ */
+export interface WorkerEntry {
+    entry: LogEntry;
+    line: string;
+}
+
+/** Messages sent from the worker thread */
+export type WorkerMessage =
+    | { type: 'flushed'; id: number }
+    | { type: 'error'; name: string; message: string; stack?: string };
+
+/** @private Most entries sent to the worker in one message */
+const BATCH_SIZE = 1000;
+
+/** @private Longest wait for the worker, when blocking or draining on exit */
+const WAIT_TIMEOUT = 5000;
+
+/** @private Indexes into the shared state */
+const PROCESSED = 0;
+const FLUSHED = 1;
+
+/**
+ * Transport handing entries to a worker thread for formatting and output
+ *
+ * @remarks
+ * Created by the logger for its console and file output when `asyncLogging`
+ * is 'worker'. Custom transports passed in `transports` stay on the logging
+ * thread.
+ */
+export class WorkerTransport implements Transport {
+    public readonly name = 'worker';
+    public readonly raw = true;
+    public minLevel?: LogSeverity;
+    private readonly worker: Worker;
+    private readonly settings: WorkerSettings;
+    private readonly state: Int32Array;
+    private readonly queueSize: number;
+    private readonly backpressure: BackpressurePolicy;
+    private readonly batchSize: number;
+    private readonly onError: (error: Error) => void;
+    private queue: WorkerEntry[] = [];
+    private posted = 0;
+    private dropped = 0;
+    private lastFlushId = 0;
+    private pendingFlushes = new Map<number, () => void>();
+    private scheduled = false;
+    private exited = false;
+    private closing = false;
+
+    /** @private Output on the logging thread, after the worker stopped unexpectedly */
+    private fallback?: OutputWriter;
+
+    /** @private Entries lost because neither the worker nor the fallback could write them */
+    private lost = 0;
+    private readonly onProcessExit = () => this.flushSync();
+
+    constructor(options: WorkerTransportOptions) {
+        this.settings = options.settings;
+        this.queueSize = options.queueSize ?? 10000;
+        this.backpressure = options.backpressure ?? 'block';
+        // Keep at most half the queue in flight, leaving unsent entries for 'drop-oldest' to discard
+        this.batchSize = Math.min(BATCH_SIZE, Math.max(1, Math.floor(this.queueSize / 2)));
+        this.onError = options.onError ?? (error => console.error('Logging error:', error));
+        this.state = new Int32Array(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT));
+
+        this.worker = new Worker(join(__dirname, 'worker-thread.js'), {
+            workerData: { settings: options.settings, state: this.state }
+        });
+        this.worker.on('message', (message: WorkerMessage) => this.handleMessage(message));
+        this.worker.on('error', error => this.onError(error));
+        this.worker.on('exit', () => {
+            this.exited = true;
+            this.pendingFlushes.forEach(resolve => resolve());
+            this.pendingFlushes.clear();
+            if (!this.closing) this.startFallback();
+        });
+        // Listening for messages keeps the event loop alive, so unref afterwards
+        this.worker.unref();
+
+        process.on('exit', this.onProcessExit);
+    }
+
+    /**
+     * Queues an entry for the worker, applying the backpressure policy when full
+     * @param entry - Log entry being written
+     * @param line - Line formatted on the logging thread, or empty for the worker to format the entry
+     */
+    public write(entry: LogEntry, line: string = ''): void {
+        if (this.exited) {
+            this.writeFallback(entry, line);
+            return;
+        }
+
+        if (this.pending() >= this.queueSize) {
+            if (this.backpressure === 'drop-newest' || (this.backpressure === 'drop-oldest' && this.queue.length === 0)) {
+                this.dropped++;
+                return;
+            }
+            if (this.backpressure === 'drop-oldest') {
+                this.queue.shift();
+                this.dropped++;
+            } else if (!this.waitForCapacity()) {
+                this.dropped++;
+                return;
+            }
+        }
+
+        this.queue.push({ entry, line });
+        if (this.queue.length >= this.batchSize && this.inFlight() < this.batchSize) {
+            this.send();
+        } else if (!this.scheduled) {
+            this.scheduled = true;
+            setImmediate(() => this.send());
+        }
+    }
+
+    /**
+     * Waits until the worker has written all entries logged so far
+     * @returns Promise resolving once the worker's transports are flushed
+     */
+    public async flush(): Promise<void> {
+        if (this.exited) {
+            await Promise.all(this.fallback?.transports.map(transport => transport.flush?.()) ?? []);
+            return;
+        }
+
+        this.send();
+        const id = ++this.lastFlushId;
+        // Keep the process alive while the caller waits
+        this.worker.ref();
+        return new Promise<void>(resolve => {
+            this.pendingFlushes.set(id, resolve);
+            this.worker.postMessage({ type: 'flush', id });
+        });
+    }
+
+    /**
+     * Blocks until the worker has written all entries logged so far.
+     * Used when the process exits, where asynchronous work can no longer run.
+     * @param timeout - Longest time to wait in ms
+     * @returns True if the worker finished in time
+     */
+    public flushSync(timeout: number = WAIT_TIMEOUT): boolean {
+        if (this.exited) {
+            this.fallback?.transports.forEach(transport => transport.flushSync?.());
+            return this.fallback !== undefined;
+        }
+
+        this.send();
+        const id = ++this.lastFlushId;
+        this.worker.postMessage({ type: 'flush', id });
+        return this.waitFor(FLUSHED, () => Atomics.load(this.state, FLUSHED) >= id, timeout);
+    }
+
+    /**
+     * Reopens the worker's output files, after entries logged so far are written
+     * @returns Promise resolving once the files are reopened
+     */
+    public async reopen(): Promise<void> {
+        if (this.exited) {
+            await Promise.all(this.fallback?.transports.map(transport => transport.reopen?.()) ?? []);
+            return;
+        }
+
+        this.send();
+        this.worker.postMessage({ type: 'reopen' });
+        // The worker's file transport reopens behind its pending writes, which flushing waits for
+        return this.flush();
+    }
+
+    /**
+     * Flushes pending entries, closes the worker's transports and stops it
+     * @returns Promise resolving once the worker has exited
+     */
+    public async close(): Promise<void> {
+        this.closing = true;
+        if (this.exited) {
+            await Promise.all(this.fallback?.transports.map(transport => transport.close?.()) ?? []);
+        } else {
+            await this.flush();
+            const exited = new Promise(resolve => this.worker.once('exit', resolve));
+            this.worker.ref();
+            this.worker.postMessage({ type: 'close' });
+            await exited;
+        }
+        process.removeListener('exit', this.onProcessExit);
+    }
+
+    /**
+     * Moves output to the logging thread after the worker stopped unexpectedly.
+     * Entries the worker had received but not written are lost and reported.
+     * @private
+     */
+    private startFallback(): void {
+        const inFlight = this.inFlight();
+        const queued = this.queue;
+        this.queue = [];
+        this.lost += inFlight;
+
+        try {
+            this.fallback = createOutputWriter(this.settings, { onError: this.onError });
+        } catch (error) {
+            this.onError(error as Error);
+        }
+        this.onError(new Error(this.fallback
+            ? 'Logging worker stopped; writing on the logging thread'
+            : 'Logging worker stopped and output could not be restarted; log entries are dropped'));
+
+        queued.forEach(({ entry, line }) => this.writeFallback(entry, line));
+    }
+
+    /**
+     * Writes an entry on the logging thread, reporting dropped entries first
+     * @private
+     * @param entry - Log entry being written
+     * @param line - Line formatted by the logger, if any
+     */
+    private writeFallback(entry: LogEntry, line: string): void {
+        // Nothing is written once the transport was closed
+        if (this.closing) return;
+
+        if (!this.fallback) {
+            this.lost++;
+            return;
+        }
+
+        const dropped = this.dropped + this.lost;
+        if (dropped > 0) {
+            this.dropped = 0;
+            this.lost = 0;
+            this.fallback.write({
+                level: 'warn',
+                message: `${dropped} log entries dropped: worker stopped or queue full`,
+                timestamp: new Date().toISOString(),
+                metadata: { dropped }
+            });
+        }
+        this.fallback.write(entry, line);
+    }
+
+    /**
+     * Number of entries queued or sent but not yet written by the worker
+     * @private
+     */
+    private pending(): number {
+        return this.queue.length + this.inFlight();
+    }
+
+    /**
+     * Number of entries sent but not yet written by the worker
+     * @private
+     */
+    private inFlight(): number {
+        return this.posted - Atomics.load(this.state, PROCESSED);
+    }
+
+    /**
+     * Sends queued entries to the worker, reporting dropped entries first
+     * @private
+     */
+    private send(): void {
+        this.scheduled = false;
+        if (this.exited) return;
+
+        if (this.dropped > 0) {
+            this.queue.unshift({
+                entry: {
+                    level: 'warn',
+                    message: `${this.dropped} log entries dropped: worker queue full`,
+                    timestamp: new Date().toISOString(),
+                    metadata: { dropped: this.dropped }
+                },
+                line: ''
+            });
+            this.dropped = 0;
+        }
+        if (this.queue.length === 0) return;
+
+        const entries = this.queue;
+        this.queue = [];
+        this.posted += entries.length;
+        this.worker.postMessage({ type: 'entries', entries });
+    }
+
+    /**
+     * Blocks until the queue has room, for the 'block' policy
+     * @private
+     * @returns True if room was made before the timeout
+     */
+    private waitForCapacity(): boolean {
+        this.send();
+        return this.waitFor(PROCESSED, () => this.pending() < this.queueSize, WAIT_TIMEOUT);
+    }
+
+    /**
+     * Blocks on the shared state until a condition holds
+     * @private
+     * @param index - State slot updated by the worker
+     * @param done - Condition to wait for
+     * @param timeout - Longest time to wait in ms
+     * @returns True if the condition holds
+     */
+    private waitFor(index: number, done: () => boolean, timeout: number): boolean {
+        const deadline = Date.now() + timeout;
+        for (;;) {
+            // Read the slot before testing, so an update in between ends the wait at once
+            const value = Atomics.load(this.state, index);
+            if (done()) return true;
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0 || this.exited) return false;
+            Atomics.wait(this.state, index, value, remaining);
+        }
+    }
+
+    /**
+     * Handles flush confirmations and errors from the worker
+     * @private
+     * @param message - Message from the worker
+     */
+    private handleMessage(message: WorkerMessage): void {
+        if (message.type === 'flushed') {
+            this.pendingFlushes.get(message.id)?.();
+            this.pendingFlushes.delete(message.id);
+            if (this.pendingFlushes.size === 0) this.worker.unref();
+        } else {
+            const error = new Error(message.message);
+            error.name = message.name;
+            error.stack = message.stack;
+            this.onError(error);
+        }
+    }
+}
@@ -49,6 +49,33 @@ export type LogLevel = LogSeverity |
  */
 export type LogFormat = 'json' | 'text' | 'console';
 
+/**
+ * Built-in timestamp formats.
+ * 
+ * @property ISO - ISO 8601, with the time zone's UTC offset when not UTC
+ * @property UTC - RFC 7231 date string
+ * @property UNIX - Seconds since the Unix Epoch
+ * @property UNIX_MS - Milliseconds since the Unix Epoch
+ * @property hrtime - High-resolution milliseconds elapsed since the logger was loaded
+ * @property locale - Locale-formatted date and time
+ */
+export type TimeFormat = 'ISO' | 'UTC' | 'UNIX' | 'UNIX_MS' | 'hrtime' | 'locale';
+
+/**
+ * Strategies for replacing redacted values.
+ * 
+ * @property mask - Replace the value with mask characters
+ * @property partial - Keep only the last four characters, e.g. `****1234`
+ * @property hash - Replace the value with a short SHA-256 digest
+ * @property remove - Drop the key, or replace matched text with `[REDACTED]`
+ */
+export type RedactionStrategy = 'mask' | 'partial' | 'hash' | 'remove';
+
+/**
+ * Built-in detectors for sensitive values inside strings.
+ */
+export type RedactionDetector = 'creditCard' | 'jwt' | 'bearer' | 'awsKey' | 'email';
+
 /**
  * Standard metadata interface for enriching log entries with contextual information.
  * Implements a flexible key-value structure while defining commonly used fields.
@@ -73,7 +100,9 @@ export interface LogMetadata {
  * 
  * @property level - Minimum severity level for log entries to be processed
  * @property minLevel - Minimum severity level for log entries to be processed
- * @property format - Output format for log entries
+ * @property levels - Minimum severity per log type, overriding `minLevel` (e.g. `{ query: 'debug' }`)
+ * @property namespaces - Minimum severity per logger name pattern, with `*` wildcards (e.g. `{ 'db:*': 'debug' }`)
+ * @property format - Output format for log entries, or a custom formatter
  * @property timestamp - Whether to include timestamps in log entries
  * @property colors - Enable/disable colored output in console logs
  * @property prefix - Custom prefix for all log messages
@@ -86,6 +115,8 @@ export interface LogMetadata {
  * @property silent - Suppress all log output when true
  * @property showEmoji - Enable/disable emojis in log messages
  * @property showLogType - Enable/disable log type display
+ * @property name - Logger name, shown with each entry and joined with ':' for child loggers
+ * @property transports - Output destinations; replaces the built-in console/file outputs when set
  * 
  * @remarks
  * This type maintains backwards compatibility while providing granular logging categories
@@ -94,7 +125,9 @@ export interface LogMetadata {
 export interface LoggerOptions {
   level?: LogSeverity;
   minLevel?: LogSeverity;
-  format?: LogFormat;
+  levels?: Record<string, LogSeverity>;
+  namespaces?: Record<string, LogSeverity>;
+  format?: LogFormat | Formatter;
   timestamp?: boolean;
   colors?: boolean;
   prefix?: string;
@@ -107,47 +140,91 @@ export interface LoggerOptions {
   silent?: boolean;
   showEmoji?: boolean;
   showLogType?: boolean;
+  name?: string;
+  transports?: Transport[];
   
   // Output Formatting
-  timeFormat?: 'ISO' | 'UTC' | 'UNIX' | 'locale';
+  timeFormat?: TimeFormat | string;  // Built-in format or pattern such as 'YYYY-MM-DD HH:mm:ss.SSS'
   timeZone?: string;  // e.g., 'America/New_York'
   indentation?: number;  // Spaces for metadata formatting
+  maxDepth?: number;  // Metadata nesting depth kept (default: 10)
+  maxArrayLength?: number;  // Items kept per array, Set or Map (default: 100)
+  maxStringLength?: number;  // Characters kept per message and metadata string (default: 10000)
   maskSecrets?: boolean;  // Mask sensitive data
-  maskFields?: string[];  // Fields to mask
+  maskFields?: (string | RegExp)[];  // Keys, globs ('*token*'), regexes or paths ('user.*.password') to mask
+  maskPatterns?: (RedactionDetector | RegExp)[];  // Value patterns masked in messages and metadata strings
+  maskStrategy?: RedactionStrategy;  // How masked values are replaced (default: 'mask')
   maskChar?: string;  // Character for masking (default: '*')
   
   // Performance & Buffering
-  bufferSize?: number;  // Buffer size for batch writing
+  bufferSize?: number;  // Entries batched per file write (0 writes each entry immediately)
   flushInterval?: number;  // Flush interval in ms
-  asyncLogging?: boolean;  // Enable async logging
+  asyncLogging?: boolean | 'worker';  // 'worker' formats and writes console/file output on a worker thread
+  workerQueueSize?: number;  // Entries queued for the worker before backpressure applies (default: 10000)
+  backpressure?: BackpressurePolicy;  // What to do when the worker queue is full (default: 'block')
+  clusterMode?: boolean;  // In cluster workers, send entries to the primary process, which writes all output
+  slowThreshold?: number;  // Timings above this many ms are logged as warnings (0 disables)
   
   // Error Handling
   errorHandler?: (error: Error) => void;
   exitOnError?: boolean;
+  handleExit?: boolean;  // Log process exit, signals and crashes, and flush output synchronously
+  reopenOnSighup?: boolean;  // Reopen the log file on SIGHUP, as sent by logrotate
   
   // File Management
   logFileMode?: number;  // File permissions (e.g., 0o666)
   compression?: boolean;  // Compress rotated logs
-  compressFormat?: 'gzip' | 'zip';
-  datePattern?: string;  // Date pattern for rotation
+  compressFormat?: 'gzip' | 'zip';  // Only gzip is currently produced
+  datePattern?: string;  // Date pattern for time-based rotation, e.g. 'YYYY-MM-DD' (daily) or 'YYYY-MM-DD-HH' (hourly)
+  maxAgeDays?: number;  // Delete rotated and dated log files older than this many days
   
   // Console Output
-  consoleJson?: boolean;  // Format console output as JSON
+  consoleJson?: boolean;  // Format console output as JSON (same as format: 'json')
   colorizeObjects?: boolean;  // Colorize object output
   levelColumnWidth?: number;  // Width of level column
   
   // Context & Correlation
   contextProvider?: () => LogMetadata;  // Dynamic context
-  correlationIdPath?: string[];  // Path to correlation ID in requests
+  correlationIdPath?: string[];  // Path to the correlation ID in metadata, e.g. ['headers', 'x-correlation-id']
   
   // Filtering & Sampling
   filter?: (entry: LogEntry) => boolean;
-  sampleRate?: number;  // 0-1 for sampling logs
+  sampleRate?: number;  // 0-1 for sampling logs (error and fatal are kept unless listed in sampleRates)
+  sampleRates?: Record<string, number>;  // Rates by log type or severity, e.g. { debug: 0.1, query: 0.01 }
+  rateLimit?: RateLimitOptions | false;  // Token-bucket limit per message
+  dedup?: DedupOptions | false;  // Collapse runs of identical entries into one plus a `repeated` count
   
   // Development
   prettyPrint?: boolean;  // Pretty print objects
   debugMode?: boolean;  // Extra debug information
-  stackTraceLimit?: number;  // Limit stack trace lines
+  stackTraceLimit?: number;  // Stack frames kept per serialized error (0 omits stacks)
+  filterStackFrames?: boolean;  // Drop node_modules and Node.js internal frames from stacks
+}
+
+/**
+ * Token-bucket rate limiting of log entries sharing a key.
+ * 
+ * @property limit - Entries written per key in a burst, refilled over `interval`
+ * @property interval - Milliseconds over which `limit` tokens are refilled
+ * @property summaryInterval - Milliseconds between "messages suppressed" summaries (default: `interval`)
+ * @property key - Groups entries sharing a limit (default: type and message template)
+ */
+export interface RateLimitOptions {
+  limit: number;
+  interval: number;
+  summaryInterval?: number;
+  key?: (entry: LogEntry) => string;
+}
+
+/**
+ * Suppression of repeated identical entries.
+ * 
+ * @property window - Milliseconds after the first entry of a run during which identical entries are collapsed
+ * @property keys - Metadata keys that must also match for entries to be identical (default: none)
+ */
+export interface DedupOptions {
+  window: number;
+  keys?: string[];
 }
 
 /**
@@ -157,22 +234,268 @@ export interface LoggerOptions {
  * @property message - The main log message
  * @property timestamp - ISO 8601 formatted timestamp of when the log was created
  * @property metadata - Optional additional contextual information
+ * @property name - Name of the logger that produced the entry
+ * @property template - Raw printf-style template of an interpolated message, for grouping
+ * @property correlationId - Identifier tying the entry to a request, from the async context or `correlationIdPath`
+ * @property sequence - Process-wide, monotonically increasing entry number preserving log order
  */
 export interface LogEntry {
-  level: LogLevel;
+  level: LogLevel | string;
   message: string;
   timestamp: string;
   metadata?: LogMetadata;
+  name?: string;
+  template?: string;
+  correlationId?: string;
+  sequence?: number;
 }
 
+/**
+ * Options accepted by `logger.child()`.
+ * Output destinations, level overrides, rate limits and deduplication are
+ * shared with the parent, so file, buffering, override, rate limit and dedup
+ * settings cannot be changed per child.
+ */
+export type ChildLoggerOptions = Omit<LoggerOptions,
+  | 'levels'
+  | 'namespaces'
+  | 'transports'
+  | 'outputFile'
+  | 'console'
+  | 'maxSize'
+  | 'rotate'
+  | 'rotateCount'
+  | 'bufferSize'
+  | 'flushInterval'
+  | 'logFileMode'
+  | 'compression'
+  | 'compressFormat'
+  | 'datePattern'
+  | 'maxAgeDays'
+  | 'asyncLogging'
+  | 'workerQueueSize'
+  | 'backpressure'
+  | 'clusterMode'
+  | 'rateLimit'
+  | 'dedup'
+  | 'handleExit'
+  | 'reopenOnSighup'
+>;
+
 /**
  * Configuration interface for mapping custom log types to severity levels.
  * Enables customization of how specialized log types are treated in terms of severity.
  * 
  * @property type - The custom log type to be configured
  * @property severity - The severity level to associate with the custom type
+ * @property color - Chalk color function, chalk style name (e.g. 'cyan') or hex code (e.g. '#ff8800')
+ * @property emoji - Emoji shown with entries of this type when `showEmoji` is enabled
  */
 export interface LogTypeConfig {
-    type: LogLevel;
+    type: LogLevel | string;
     severity: LogSeverity;
-}
\ No newline at end of file
+    color?: ((text: string) => string) | string;
+    emoji?: string;
+}
+
+/**
+ * Deferred log arguments, evaluated only when the entry's level is enabled.
+ * Returns the first argument, or an array of all arguments.
+ */
+export type LogThunk = () => string | Error | LogMetadata | unknown[];
+
+/**
+ * First argument of the logging methods: a message or printf-style template,
+ * an Error, a metadata object followed by the message, or a thunk producing
+ * the arguments.
+ */
+export type LogInput = string | Error | LogMetadata | LogThunk;
+
+/**
+ * Signature of the logging methods, built-in and registered alike.
+ * Arguments after the message fill its format specifiers (`%s %d %i %f %j %o %O`);
+ * trailing objects become metadata.
+ */
+export type LogMethod = (message: LogInput, ...args: unknown[]) => void;
+
+/**
+ * Converts a structured log entry into the line written by a transport.
+ * Implement this interface to provide a custom output format.
+ * 
+ * @example
+ * ```typescript
+ * const csvFormatter: Formatter = {
+ *   format: (entry) => [entry.timestamp, entry.level, entry.message].join(',')
+ * };
+ * ```
+ */
+export interface Formatter {
+  format(entry: LogEntry): string;
+}
+
+/**
+ * Configuration for the built-in formatters.
+ * 
+ * @property colors - Enable/disable ANSI colors (console format)
+ * @property showEmoji - Enable/disable emojis (console format)
+ * @property showLogType - Enable/disable log type display (console and text formats)
+ * @property prefix - Custom prefix for all log messages (console and text formats)
+ * @property indentation - Spaces used to indent JSON output; single-line when 0 (json format)
+ * @property excludeMetadata - Metadata keys left out of the output (console and text formats)
+ */
+export interface FormatterOptions {
+  colors?: boolean;
+  showEmoji?: boolean;
+  showLogType?: boolean;
+  prefix?: string;
+  indentation?: number;
+  excludeMetadata?: string[];
+}
+
+/**
+ * Options shared by all transports.
+ * 
+ * @property minLevel - Minimum severity written by this transport, applied after the logger's own level
+ * @property formatter - Formatter for this transport, either a custom implementation or a built-in
+ * format configured from the logger's options
+ */
+export interface TransportOptions {
+  minLevel?: LogSeverity;
+  formatter?: Formatter | LogFormat;
+}
+
+/**
+ * Output destination for log entries.
+ * 
+ * @remarks
+ * The logger formats each entry with the transport's `formatter`, falling
+ * back to the format selected by its `format` option, then hands both the
+ * structured entry and the formatted line to `write()`. Transports sharing a
+ * formatter reuse the same formatted line. Transports marked `raw` format
+ * entries themselves and receive an empty line.
+ * 
+ * @property name - Identifier of the transport
+ * @property raw - Skip formatting on the logging thread
+ * @property write - Writes a single formatted entry
+ * @property flush - Writes out any pending entries
+ * @property flushSync - Writes out pending entries synchronously, when the process is exiting
+ * @property reopen - Reopens output files, after they were moved by external log rotation
+ * @property close - Flushes pending entries and releases resources
+ */
+export interface Transport extends TransportOptions {
+  readonly name: string;
+  readonly raw?: boolean;
+  write(entry: LogEntry, line: string): void | Promise<void>;
+  flush?(): Promise<void>;
+  flushSync?(): void;
+  reopen?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Plain-object form of an `Error`, as written to log entries.
+ * 
+ * @property name - Error class name, e.g. 'TypeError'
+ * @property message - Error message
+ * @property code - Error code such as 'ECONNREFUSED', when set
+ * @property stack - Stack frames without the leading "at ", trimmed to `stackTraceLimit`
+ * @property cause - Serialized `cause`, or the raw value if it is not an error
+ * @property errors - Serialized errors of an `AggregateError`
+ * 
+ * Custom enumerable properties of the error are copied alongside.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string | number;
+  stack?: string[];
+  cause?: unknown;
+  errors?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Running timer created by `startTimer()`.
+ * 
+ * @property label - Name of the measured operation
+ * @property elapsed - Milliseconds elapsed so far, or the final duration once done
+ * @property done - Logs the duration with optional extra metadata and returns it;
+ * later calls return the same duration without logging again
+ */
+export interface Timer {
+  readonly label: string;
+  elapsed(): number;
+  done(metadata?: LogMetadata): number;
+}
+
+/**
+ * Configuration for the built-in console transport.
+ * 
+ * @property sync - Write synchronously to the stdout/stderr file descriptors instead of
+ * through `console`, so output is not lost when the process exits
+ */
+export interface ConsoleTransportOptions extends TransportOptions {
+  sync?: boolean;
+}
+
+/**
+ * Behavior when the worker thread falls behind:
+ * - `block` - wait for the worker to catch up, dropping the entry after a timeout
+ * - `drop-oldest` - discard the oldest entry not yet sent to the worker
+ * - `drop-newest` - discard the entry being logged
+ */
+export type BackpressurePolicy = 'block' | 'drop-oldest' | 'drop-newest';
+
+/**
+ * Configuration for the built-in file transport.
+ * 
+ * @property filename - Path of the log file
+ * @property maxSize - Maximum size of the log file before rotation (in bytes)
+ * @property rotate - Enable/disable log file rotation
+ * @property rotateCount - Number of rotated log files to maintain
+ * @property logFileMode - File permissions (e.g., 0o666)
+ * @property compression - Gzip rotated logs in the background
+ * @property compressFormat - Compression format for rotated logs (only gzip is currently produced)
+ * @property bufferSize - Buffer size for batch writing
+ * @property flushInterval - Flush interval in ms
+ * @property datePattern - Date pattern inserted into the filename, starting a new file whenever it changes
+ * @property timeZone - Time zone the date pattern is rendered in (default: 'UTC')
+ * @property maxAgeDays - Delete rotated and dated files older than this many days (0 keeps them)
+ * @property onError - Receives errors of writes no caller awaits, such as timed flushes (default: console.error)
+ */
+export interface FileTransportOptions extends TransportOptions {
+  filename: string;
+  maxSize?: number;
+  rotate?: boolean;
+  rotateCount?: number;
+  logFileMode?: number;
+  compression?: boolean;
+  compressFormat?: 'gzip' | 'zip';
+  bufferSize?: number;
+  flushInterval?: number;
+  datePattern?: string;
+  timeZone?: string;
+  maxAgeDays?: number;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Configuration for the HTTP request logging middleware.
+ * 
+ * @property requestIdHeader - Header read for an incoming request ID and set on the response
+ * @property generateRequestId - Creates a request ID when the request has none
+ * @property exclude - Paths whose requests are not logged, matched exactly or by regular expression (query string ignored)
+ * @property logRequestStart - Log a `request` entry when the request arrives, not only when it finishes
+ * @property logHeaders - Include request and response headers in the entries
+ * @property redactHeaders - Header names whose values are replaced with `[REDACTED]` (case-insensitive)
+ * @property trustProxy - Take the client IP from the first `X-Forwarded-For` address
+ */
+export interface HttpLoggerOptions {
+  requestIdHeader?: string;
+  generateRequestId?: () => string;
+  exclude?: (string | RegExp)[];
+  logRequestStart?: boolean;
+  logHeaders?: boolean;
+  redactHeaders?: string[];
+  trustProxy?: boolean;
+}
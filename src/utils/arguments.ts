@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Log method argument parsing
+ * @module LogArguments
+ * @description
+ * Turns the variadic arguments of the logging methods into a message and
+ * metadata. Messages are printf-style templates interpolated with Node's
+ * `util.format`, and an Error or metadata object may come first.
+ */
+
+import { format, inspect } from 'util';
+import { LogInput, LogMetadata } from '../types';
+import { describeThrown } from './serialize';
+
+/**
+ * Message and metadata extracted from log method arguments
+ *
+ * @property message - Interpolated message
+ * @property template - Raw template, when arguments were interpolated into it
+ * @property metadata - Metadata objects and errors passed among the arguments
+ */
+export interface ParsedArguments {
+    message: string;
+    template?: string;
+    metadata: LogMetadata;
+}
+
+/** @private Format specifiers understood by `util.format` */
+const FORMAT_SPECIFIERS = /%[sdifjoOc%]/g;
+
+/**
+ * Tests whether a value is a plain object usable as metadata
+ * @private
+ * @param value - Value to test
+ * @returns True for object literals and null-prototype objects
+ */
+const isPlainObject = (value: unknown): value is LogMetadata => {
+    if (typeof value !== 'object' || value === null) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Copies the properties of a metadata object, recording getters that throw
+ * @private
+ * @param target - Metadata being built
+ * @param source - Metadata object passed to the logging method
+ */
+const assignMetadata = (target: LogMetadata, source: LogMetadata): void => {
+    for (const key of Object.keys(source)) {
+        try {
+            target[key] = source[key];
+        } catch (error) {
+            target[key] = describeThrown(error);
+        }
+    }
+};
+
+/**
+ * Parses the arguments given to a logging method
+ *
+ * @remarks
+ * - A string message is a template: each `%s %d %i %f %j %o %O %c` consumes
+ *   the next argument, as with `util.format`, and `%%` is a literal percent
+ *   sign once arguments are interpolated. A plain object given last is never
+ *   interpolated, so it stays metadata even when the message contains `%`.
+ * - An Error given first is added to the metadata as `error`, and its message
+ *   is used unless a message follows it. A plain object given first becomes
+ *   the metadata, followed by an optional message.
+ * - Arguments left after interpolation are merged into the metadata when they
+ *   are plain objects, added as `error` when they are errors, and otherwise
+ *   appended to the message. Undefined arguments are ignored.
+ *
+ * @param input - First argument: message, Error or metadata object
+ * @param args - Remaining arguments
+ * @returns Message, raw template and metadata
+ *
+ * @example
+ * ```typescript
+ * parseArguments('user %s bought %d items', ['ana', 3, { orderId: 7 }]);
+ * // { message: 'user ana bought 3 items', template: 'user %s bought %d items', metadata: { orderId: 7 } }
+ * ```
+ */
+export const parseArguments = (input: LogInput | unknown, args: unknown[]): ParsedArguments => {
+    const metadata: LogMetadata = {};
+    let rest = args;
+    let template: unknown = input;
+
+    if (input instanceof Error || isPlainObject(input)) {
+        if (input instanceof Error) {
+            metadata.error = input;
+        } else {
+            assignMetadata(metadata, input);
+        }
+        if (typeof rest[0] === 'string') {
+            template = rest[0];
+            rest = rest.slice(1);
+        } else {
+            template = input instanceof Error ? input.message : '';
+        }
+    }
+
+    let message: string;
+    let interpolated = false;
+    if (typeof template === 'string') {
+        const specifiers = (template.match(FORMAT_SPECIFIERS) || []).filter(specifier => specifier !== '%%');
+        // A trailing plain object is metadata, so `(message, metadata)` calls keep working when the message contains `%`
+        const trailing = rest.length > 0 && isPlainObject(rest[rest.length - 1]) ? rest.slice(-1) : [];
+        const candidates = rest.slice(0, rest.length - trailing.length);
+        const values = candidates.slice(0, specifiers.length);
+        rest = [...candidates.slice(specifiers.length), ...trailing];
+        interpolated = values.length > 0;
+        message = interpolated ? format(template, ...values) : template;
+    } else {
+        message = format(template);
+    }
+
+    const extras: string[] = [];
+    for (const arg of rest) {
+        if (arg === undefined) continue;
+        if (arg instanceof Error) {
+            metadata.error = arg;
+        } else if (isPlainObject(arg)) {
+            assignMetadata(metadata, arg);
+        } else {
+            extras.push(typeof arg === 'string' ? arg : inspect(arg));
+        }
+    }
+    if (extras.length > 0) message = [message, ...extras].join(' ');
+
+    return {
+        message,
+        ...(interpolated ? { template: template as string } : {}),
+        metadata
+    };
+};
@@ -8,6 +8,7 @@
  */
 
 import chalk from 'chalk';
+import { LogTypeConfig } from '../types';
 
 /**
  * Color configuration mapping for different log types and severity levels
@@ -178,4 +179,52 @@ export const symbols = {
     push: '🔔',
     offline: '📴',
     sync: '🔄'
-};
\ No newline at end of file
+};
+
+/**
+ * Resolves a color given as a chalk function, a chalk style name
+ * (e.g. 'cyan', 'bgRed') or a hex code (e.g. '#ff8800').
+ * @private
+ */
+const resolveColor = (color: ((text: string) => string) | string): ((text: string) => string) => {
+    if (typeof color === 'function') return color;
+    if (color.startsWith('#')) return chalk.hex(color);
+
+    const style = (chalk as unknown as Record<string, unknown>)[color];
+    return typeof style === 'function' ? style as (text: string) => string : chalk.white;
+};
+
+/**
+ * Registers the console color and emoji of a custom log type.
+ * 
+ * @param config - Log type with optional color and emoji
+ * 
+ * @example
+ * ```typescript
+ * registerTypeStyle({ type: 'payment', severity: 'info', color: 'green', emoji: '💳' });
+ * ```
+ */
+export const registerTypeStyle = ({ type, color, emoji }: LogTypeConfig): void => {
+    (colors as Record<string, (text: string) => string>)[type] = resolveColor(color ?? chalk.white);
+    if (emoji) {
+        (symbols as Record<string, string>)[type] = emoji;
+    }
+};
+
+/**
+ * Resolves the color of a log type or severity, defaulting to white.
+ * 
+ * @param type - Log type or severity
+ * @returns Chalk color function
+ */
+export const getColor = (type: string): ((text: string) => string) =>
+    (colors as Record<string, (text: string) => string>)[type] ?? chalk.white;
+
+/**
+ * Resolves the emoji of a log type, if any.
+ * 
+ * @param type - Log type
+ * @returns Emoji symbol or undefined
+ */
+export const getSymbol = (type: string): string | undefined =>
+    (symbols as Record<string, string>)[type];
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Asynchronous log context propagation
+ * @module LogContext
+ * @description
+ * Carries log metadata such as correlation IDs across asynchronous call
+ * chains using `AsyncLocalStorage`, so every entry logged while handling a
+ * request can be tied back to it without passing loggers around.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogMetadata } from '../types';
+
+/** @private Process-wide storage shared by all loggers */
+const storage = new AsyncLocalStorage<LogMetadata>();
+
+/**
+ * Runs a function with log metadata bound to its asynchronous call chain.
+ * Nested calls merge their metadata over the enclosing context.
+ * 
+ * @param context - Metadata added to every entry logged within `fn`
+ * @param fn - Function to run
+ * @returns The return value of `fn`
+ * 
+ * @example
+ * ```typescript
+ * runWithContext({ correlationId: 'req_123' }, async () => {
+ *   await handleRequest(); // all logs carry correlationId
+ * });
+ * ```
+ */
+export const runWithContext = <T>(context: LogMetadata, fn: () => T): T =>
+    storage.run({ ...storage.getStore(), ...context }, fn);
+
+/**
+ * Returns the metadata bound to the current asynchronous call chain.
+ * 
+ * @returns The active context, or undefined outside of `runWithContext()`
+ */
+export const getContext = (): LogMetadata | undefined => storage.getStore();
+
+/**
+ * Runs a function outside of any bound context, for entries that do not
+ * belong to the request that happened to trigger them.
+ * 
+ * @param fn - Function to run
+ * @returns The return value of `fn`
+ */
+export const exitContext = <T>(fn: () => T): T => storage.exit(fn);
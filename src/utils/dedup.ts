@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Duplicate entry suppression
+ * @module Dedup
+ * @description
+ * Collapses runs of identical entries, such as the same error logged on
+ * every failed call while a dependency is down. The first entry of a run is
+ * written and the repetitions are reported as a single summary once the
+ * window closes or a different entry arrives.
+ */
+
+import { DedupOptions, LogEntry } from '../types';
+import { safeStringify } from './serialize';
+
+/**
+ * Deduplication stage of the log pipeline
+ *
+ * @property configure - Replaces the settings; `false` disables deduplication
+ * @property check - Returns false for entries repeating the current run
+ * @property flush - Reports the current run and starts a new one
+ */
+export interface Deduplicator {
+    configure(options: DedupOptions | false): void;
+    check(entry: LogEntry): boolean;
+    flush(): void;
+}
+
+/** @private Run of identical entries being collapsed */
+interface Run {
+    key: string;
+    entry: LogEntry;
+    repeated: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Builds the identity of an entry from its type, message and selected metadata
+ * @private
+ * @param entry - Log entry
+ * @param keys - Metadata keys taking part in the identity
+ * @returns Key equal for entries considered identical
+ */
+const getIdentity = (entry: LogEntry, keys: string[]): string => {
+    const selected = keys.map(key => safeStringify(entry.metadata?.[key]) ?? 'undefined');
+    return [entry.level, entry.message, ...selected].join('\u0000');
+};
+
+/**
+ * Creates the deduplication stage
+ *
+ * @remarks
+ * A run starts with the first occurrence of an entry and lasts `window` ms.
+ * Identical entries within the run are dropped and counted. When the window
+ * closes, or an entry with a different identity arrives, `onRepeated` is
+ * called with the first entry of the run and the number of dropped copies.
+ *
+ * @param options - Initial settings, or `false` to start disabled
+ * @param onRepeated - Receives the first entry of a run and its repetition count
+ * @returns Deduplicator
+ *
+ * @example
+ * ```typescript
+ * const dedup = createDeduplicator({ window: 5000, keys: ['service'] }, (entry, repeated) =>
+ *   write({ ...entry, metadata: { ...entry.metadata, repeated } }));
+ * if (dedup.check(entry)) write(entry);
+ * ```
+ */
+export const createDeduplicator = (
+    options: DedupOptions | false,
+    onRepeated: (entry: LogEntry, repeated: number) => void
+): Deduplicator => {
+    let config = options;
+    let current: Run | undefined;
+
+    const flush = (): void => {
+        if (!current) return;
+        const { entry, repeated, timer } = current;
+        clearTimeout(timer);
+        current = undefined;
+        if (repeated > 0) onRepeated(entry, repeated);
+    };
+
+    return {
+        configure(options: DedupOptions | false): void {
+            flush();
+            config = options;
+        },
+
+        check(entry: LogEntry): boolean {
+            if (!config) return true;
+
+            const key = getIdentity(entry, config.keys ?? []);
+            if (current && current.key === key) {
+                current.repeated++;
+                return false;
+            }
+
+            flush();
+            const timer = setTimeout(flush, config.window);
+            timer.unref();
+            current = { key, entry, repeated: 0, timer };
+            return true;
+        },
+
+        flush
+    };
+};
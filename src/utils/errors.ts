@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Error serialization
+ * @module ErrorSerializer
+ * @description
+ * Converts `Error` instances into plain objects that survive JSON output,
+ * keeping the name, message, code, custom properties and stack frames along
+ * with nested `cause` chains and the `errors` of an `AggregateError`.
+ */
+
+import { SerializedError } from '../types';
+
+/**
+ * Error serializer configuration
+ *
+ * @property stackTraceLimit - Maximum number of stack frames kept per error (0 omits the stack)
+ * @property filterFrames - Drop frames from `node_modules` and Node.js internals
+ */
+export interface ErrorSerializerOptions {
+    stackTraceLimit?: number;
+    filterFrames?: boolean;
+}
+
+/** @private Nested causes followed before the chain is cut off */
+const MAX_CAUSE_DEPTH = 10;
+
+/** @private Properties serialized explicitly rather than copied */
+const RESERVED_KEYS = new Set(['name', 'message', 'stack', 'code', 'cause', 'errors']);
+
+/**
+ * Tests whether a stack frame belongs to a dependency or to Node.js itself
+ * @private
+ * @param frame - Stack frame without the leading "at "
+ * @returns True if the frame should be filtered
+ */
+const isLibraryFrame = (frame: string): boolean =>
+    frame.includes('node_modules') ||
+    frame.includes('node:internal') ||
+    /\(internal\/|^internal\//.test(frame);
+
+/**
+ * Extracts the frames of an error stack
+ * @private
+ * @param stack - Stack as produced by V8
+ * @param options - Serializer configuration
+ * @returns Frames without the leading "at "
+ */
+const parseStack = (stack: string, options: ErrorSerializerOptions): string[] => {
+    const { stackTraceLimit = 10, filterFrames = false } = options;
+
+    let frames = stack
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.startsWith('at '))
+        .map(line => line.slice(3));
+    if (filterFrames) frames = frames.filter(frame => !isLibraryFrame(frame));
+    return frames.slice(0, Math.max(stackTraceLimit, 0));
+};
+
+/**
+ * Serializes an error, or passes through any other thrown value
+ * @private
+ * @param value - Error, cause or aggregated error
+ * @param options - Serializer configuration
+ * @param seen - Errors on the current path, to stop at cycles
+ * @param depth - Nesting depth of the current error
+ * @returns Serialized error or the original value
+ */
+const serialize = (
+    value: unknown,
+    options: ErrorSerializerOptions,
+    seen: Set<Error>,
+    depth: number
+): SerializedError | unknown => {
+    if (!(value instanceof Error)) return value;
+    if (seen.has(value)) return '[Circular]';
+    if (depth > MAX_CAUSE_DEPTH) return '[Truncated]';
+    seen.add(value);
+
+    const error = value as Error & { code?: string | number; cause?: unknown; errors?: unknown };
+    const result: SerializedError = {
+        name: error.name,
+        message: error.message
+    };
+    if (error.code !== undefined) result.code = error.code;
+
+    for (const key of Object.keys(error)) {
+        if (RESERVED_KEYS.has(key)) continue;
+        result[key] = serialize((error as unknown as Record<string, unknown>)[key], options, seen, depth + 1);
+    }
+
+    if (error.stack && (options.stackTraceLimit ?? 10) > 0) {
+        result.stack = parseStack(error.stack, options);
+    }
+    if (error.cause !== undefined) {
+        result.cause = serialize(error.cause, options, seen, depth + 1);
+    }
+    if (Array.isArray(error.errors)) {
+        result.errors = error.errors.map(inner => serialize(inner, options, seen, depth + 1));
+    }
+
+    seen.delete(value);
+    return result;
+};
+
+/**
+ * Serializes an error into a plain object
+ *
+ * @param error - Error to serialize
+ * @param options - Serializer configuration
+ * @returns Plain object with the error's details, causes and aggregated errors
+ *
+ * @example
+ * ```typescript
+ * serializeError(new Error('Query failed', { cause: timeoutError }), { stackTraceLimit: 5 });
+ * // { name: 'Error', message: 'Query failed', stack: [...], cause: { name: 'TimeoutError', ... } }
+ * ```
+ */
+export const serializeError = (error: Error, options: ErrorSerializerOptions = {}): SerializedError =>
+    serialize(error, options, new Set(), 0) as SerializedError;
+
+/**
+ * Tests whether a value is an error serialized by `serializeError()`
+ *
+ * @param value - Value to test
+ * @returns True for serialized errors
+ */
+export const isSerializedError = (value: unknown): value is SerializedError =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as SerializedError).name === 'string' &&
+    typeof (value as SerializedError).message === 'string' &&
+    (Array.isArray((value as SerializedError).stack) || 'cause' in value || 'errors' in value);
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Process exit hooks
+ * @module Exit
+ * @description
+ * Observes the ways a process ends: the event loop draining, a call to
+ * `process.exit()`, a termination signal, an uncaught exception or an
+ * unhandled rejection. Listeners run while the process can still execute
+ * synchronous code, so loggers can record the event and write out pending
+ * entries before it is gone.
+ */
+
+import { constants } from 'os';
+
+/**
+ * Reason the process is ending
+ */
+export type ExitReason = 'beforeExit' | 'exit' | 'SIGINT' | 'SIGTERM' | 'uncaughtException' | 'unhandledRejection';
+
+/**
+ * Receives the reason the process is ending and, for crashes, the error
+ */
+export type ExitListener = (reason: ExitReason, error?: unknown) => void;
+
+/** @private Signals that terminate the process */
+const SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/** @private Registered listeners; the process hooks exist while there are any */
+const listeners = new Set<ExitListener>();
+
+/** @private Set once the event loop has drained, so exit is reported only once */
+let drained = false;
+
+/**
+ * Calls every listener, isolating failures so one cannot prevent the others
+ * @private
+ * @param reason - Reason the process is ending
+ * @param error - Error that crashed the process
+ */
+const notify = (reason: ExitReason, error?: unknown): void => {
+    for (const listener of listeners) {
+        try {
+            listener(reason, error);
+        } catch (failure) {
+            console.error('Exit hook failed:', failure);
+        }
+    }
+};
+
+const onBeforeExit = (): void => {
+    // Anything logged here schedules more work, which would drain the loop again
+    if (drained) return;
+    drained = true;
+    notify('beforeExit');
+};
+
+const onExit = (): void => {
+    notify('exit');
+};
+
+const onSignal = (signal: NodeJS.Signals): void => {
+    notify(signal as ExitReason);
+
+    // Listening replaces the default handling, so exit unless the application handles the signal too
+    if (process.listenerCount(signal) === 1) {
+        process.exit(128 + constants.signals[signal]);
+    }
+};
+
+const onCrash = (error: Error, origin: string): void => {
+    notify(origin === 'unhandledRejection' ? 'unhandledRejection' : 'uncaughtException', error);
+};
+
+/**
+ * Registers a listener for the end of the process
+ *
+ * @remarks
+ * - `beforeExit` is reported once, the first time the event loop drains.
+ * - `exit` is reported whenever the process exits, including through
+ *   `process.exit()`, where only synchronous work still runs.
+ * - `SIGINT` and `SIGTERM` are reported, then the process exits with code
+ *   128 + the signal number as it would by default, unless the application
+ *   has its own listener for the signal.
+ * - Uncaught exceptions and unhandled rejections are observed through
+ *   `uncaughtExceptionMonitor`, leaving Node's crash behavior and any
+ *   application handlers unchanged. Rejections are reported when Node
+ *   treats them as errors, which is the default.
+ *
+ * @param listener - Called with the reason the process is ending
+ * @returns Function removing the listener
+ *
+ * @example
+ * ```typescript
+ * const remove = registerExitHooks((reason, error) => {
+ *   logger.warn('Process exiting', { reason, error });
+ *   logger.flushSync();
+ * });
+ * ```
+ */
+export const registerExitHooks = (listener: ExitListener): (() => void) => {
+    if (listeners.size === 0) {
+        process.on('beforeExit', onBeforeExit);
+        process.on('exit', onExit);
+        process.on('uncaughtExceptionMonitor', onCrash);
+        SIGNALS.forEach(signal => process.on(signal, onSignal));
+    }
+    listeners.add(listener);
+
+    return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) return;
+        process.removeListener('beforeExit', onBeforeExit);
+        process.removeListener('exit', onExit);
+        process.removeListener('uncaughtExceptionMonitor', onCrash);
+        SIGNALS.forEach(signal => process.removeListener(signal, onSignal));
+    };
+};
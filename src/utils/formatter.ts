@@ -8,7 +8,9 @@
  */
 
 import chalk from 'chalk';
-import { LogLevel, LogMetadata } from '../types';
+import { LogLevel, LogMetadata, SerializedError } from '../types';
+import { isSerializedError } from './errors';
+import { safeStringify } from './serialize';
 
 /**
  * Formats a timestamp with dimmed styling for visual distinction
@@ -48,12 +50,39 @@ const formatLevelAndType = (
     return `${emojiStr}${levelStr}${typeStr}`;
 };
 
+/**
+ * Renders a serialized error compactly: a `Name: message [code]` header,
+ * its stack frames, then nested causes and aggregated errors
+ * @private
+ * @param error - Serialized error
+ * @returns Multi-line error description
+ */
+const formatError = (error: SerializedError): string => {
+    const { name, message, code, stack = [], cause, errors, ...props } = error;
+    const indent = (text: string) => text.split('\n').join('\n  ');
+
+    const details = Object.keys(props).length > 0 ? ` ${safeStringify(props)}` : '';
+    const lines = [`${name}: ${message}${code !== undefined ? ` [${code}]` : ''}${details}`];
+    stack.forEach(frame => lines.push(`  at ${frame}`));
+
+    if (cause !== undefined) {
+        lines.push(`  caused by: ${indent(isSerializedError(cause) ? formatError(cause) : formatValue(cause))}`);
+    }
+    errors?.forEach((inner, index) => {
+        lines.push(`  [${index}] ${indent(isSerializedError(inner) ? formatError(inner) : formatValue(inner))}`);
+    });
+
+    return lines.join('\n');
+};
+
 const formatValue = (value: any): string => {
     if (value === null) return 'null';
     if (value === undefined) return 'undefined';
     
     switch (typeof value) {
         case 'object': {
+            if (isSerializedError(value)) return formatError(value);
+
             // Handle Error objects and stack traces
             if (value instanceof Error || 
                 (typeof value === 'string' && value.includes('\n    at '))) {
@@ -154,7 +183,7 @@ const formatMapOrSet = (entries: any[], type: 'Map' | 'Set'): string => {
 
 const formatArray = (arr: any[]): string => {
     if (arr.length === 0) return '[]';
-    return JSON.stringify(arr, null, 2)
+    return safeStringify(arr, 2)
         .split('\n')
         .map(line => line.trimRight())
         .join('\n    ');
@@ -171,12 +200,12 @@ const formatObject = (obj: object): string => {
         }
     }
 
-    return JSON.stringify(obj, (key, value) => {
+    return safeStringify(obj, 2, (key, value) => {
         if (value instanceof Function) return '[Function]';
         if (value instanceof RegExp) return value.toString();
         if (value instanceof Error) return value.stack || value.message;
         return value;
-    }, 2)
+    })
         .split('\n')
         .map(line => line.trimRight())
         .join('\n    ');
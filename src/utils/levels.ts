@@ -144,3 +144,105 @@ export const defaultTypeMapping: Record<LogLevel, LogSeverity> = {
     // Additional Types
     success: 'info'
 };
+
+/**
+ * Severity mapping of log types registered at runtime via `logger.registerType()`.
+ * @private
+ */
+const registeredTypeMapping: Record<string, LogSeverity> = {};
+
+/**
+ * Registers the severity of a custom log type.
+ * 
+ * @param config - Log type and the severity it maps to
+ */
+export const registerTypeSeverity = ({ type, severity }: LogTypeConfig): void => {
+    registeredTypeMapping[type] = severity;
+};
+
+/**
+ * Resolves the severity of a built-in or registered log type.
+ * 
+ * @param type - Log type to resolve
+ * @returns The mapped severity, or 'info' for unknown types
+ * 
+ * @example
+ * ```typescript
+ * getSeverity('security'); // 'warn'
+ * ```
+ */
+export const getSeverity = (type: LogLevel | string): LogSeverity =>
+    (defaultTypeMapping as Record<string, LogSeverity>)[type] ?? registeredTypeMapping[type] ?? 'info';
+
+/**
+ * Level override for loggers whose name matches a pattern
+ * 
+ * @property pattern - Name pattern, where `*` matches any sequence of characters
+ * @property matcher - Compiled pattern
+ * @property severity - Minimum severity for matching loggers
+ */
+export interface NamespaceLevel {
+    pattern: string;
+    matcher: RegExp;
+    severity: LogSeverity;
+}
+
+/**
+ * Checks whether a string is one of the standard severities.
+ * 
+ * @param value - String to check
+ * @returns Whether the value is a LogSeverity
+ */
+export const isSeverity = (value: string): value is LogSeverity =>
+    Object.prototype.hasOwnProperty.call(defaultLogLevels, value);
+
+/**
+ * Compiles namespace patterns into matchers, most specific first.
+ * A pattern is more specific the more literal characters it has.
+ * 
+ * @param namespaces - Map of name patterns to severities, e.g. `{ 'db:*': 'debug' }`
+ * @returns Compiled namespace levels
+ */
+export const compileNamespaceLevels = (namespaces: Record<string, LogSeverity>): NamespaceLevel[] =>
+    Object.entries(namespaces)
+        .map(([pattern, severity]) => ({
+            pattern,
+            severity,
+            matcher: new RegExp(`^${pattern
+                .split('*')
+                .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('.*')}$`)
+        }))
+        .sort((a, b) => b.pattern.replace(/\*/g, '').length - a.pattern.replace(/\*/g, '').length);
+
+/**
+ * Parses a comma separated level list as used by the `LOG_LEVELS` and
+ * `LOG_NAMESPACES` environment variables. A bare severity sets the default
+ * level; `key=severity` entries set overrides. Invalid entries are ignored.
+ * 
+ * @param value - Level list, e.g. 'info,query=debug,cache=warn'
+ * @returns The default severity, if any, and the overrides
+ * 
+ * @example
+ * ```typescript
+ * parseLevelList('info, db:*=debug');
+ * // { severity: 'info', overrides: { 'db:*': 'debug' } }
+ * ```
+ */
+export const parseLevelList = (value: string = ''): { severity?: LogSeverity; overrides: Record<string, LogSeverity> } => {
+    const result: { severity?: LogSeverity; overrides: Record<string, LogSeverity> } = { overrides: {} };
+
+    for (const item of value.split(',')) {
+        const [key, level] = item.split('=').map(part => part.trim());
+        const severity = (level ?? key).toLowerCase();
+        if (!isSeverity(severity)) continue;
+
+        if (level === undefined) {
+            result.severity = severity;
+        } else if (key) {
+            result.overrides[key] = severity;
+        }
+    }
+
+    return result;
+};
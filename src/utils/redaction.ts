@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Sensitive data redaction
+ * @module Redaction
+ * @description
+ * Provides a redaction engine that masks sensitive values in log messages
+ * and metadata. Values are selected by key (exact names, globs, regular
+ * expressions or dotted paths) and by value patterns such as credit card
+ * numbers, JWTs, bearer tokens, AWS access keys and email addresses.
+ */
+
+import { createHash } from 'crypto';
+import { RedactionDetector, RedactionStrategy } from '../types';
+
+/**
+ * Redaction engine configuration
+ * 
+ * @property fields - Keys to redact: exact names, globs ('*token*'), regular expressions,
+ * or dotted paths from the metadata root ('user.*.password')
+ * @property detectors - Value patterns redacted inside any string, including the message
+ * @property strategy - How matched values are replaced
+ * @property maskChar - Character used by the 'mask' and 'partial' strategies
+ */
+export interface RedactionOptions {
+    fields?: (string | RegExp)[];
+    detectors?: (RedactionDetector | RegExp)[];
+    strategy?: RedactionStrategy;
+    maskChar?: string;
+}
+
+/**
+ * Redacts strings and structured values
+ */
+export interface Redactor {
+    /** Redacts detector matches inside a string */
+    redactString(text: string): string;
+    /** Returns a redacted copy of a value, leaving the original untouched */
+    redactValue<T>(value: T): T;
+}
+
+/** @private Replacement used when a matched substring is removed */
+const REMOVED = '[REDACTED]';
+
+/**
+ * Checks a digit string against the Luhn checksum used by card numbers
+ * @private
+ */
+const passesLuhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+/**
+ * Built-in value detectors
+ * @private
+ */
+const detectorPatterns: Record<RedactionDetector, RegExp> = {
+    creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+    jwt: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+    bearer: /\bBearer\s+[\w\-.~+/]+=*/gi,
+    awsKey: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    email: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g
+};
+
+/**
+ * Converts a glob with `*` wildcards into an anchored, case-insensitive regular expression
+ * @private
+ */
+const globToRegExp = (glob: string): RegExp =>
+    new RegExp(`^${glob
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`, 'i');
+
+/**
+ * Creates a redaction engine.
+ * 
+ * @description
+ * Strategies:
+ * - `mask` - replaces the value with eight mask characters
+ * - `partial` - keeps the last four characters (`****1234`)
+ * - `hash` - replaces the value with a short SHA-256 digest, so equal values stay correlatable
+ * - `remove` - drops matched keys and replaces matched substrings with `[REDACTED]`
+ * 
+ * @param options - Redaction configuration
+ * @returns The redactor
+ * 
+ * @example
+ * ```typescript
+ * const redactor = createRedactor({
+ *   fields: ['password', '*token*', 'users.*.ssn'],
+ *   detectors: ['creditCard', 'jwt'],
+ *   strategy: 'partial'
+ * });
+ * redactor.redactValue({ password: 'hunter22', card: '4111 1111 1111 1111' });
+ * // { password: '****er22', card: '****1111' }
+ * ```
+ */
+export const createRedactor = (options: RedactionOptions = {}): Redactor => {
+    const { strategy = 'mask', maskChar = '*' } = options;
+
+    const keyMatchers: RegExp[] = [];
+    const pathMatchers: RegExp[][] = [];
+    for (const field of options.fields || []) {
+        if (field instanceof RegExp) {
+            // Stateful flags would make test() resume from the previous key's match
+            keyMatchers.push(new RegExp(field.source, field.flags.replace(/[gy]/g, '')));
+        } else if (field.includes('.')) {
+            pathMatchers.push(field.split('.').map(globToRegExp));
+        } else {
+            keyMatchers.push(globToRegExp(field));
+        }
+    }
+
+    const detectors = (options.detectors || []).map(detector => {
+        const pattern = detector instanceof RegExp ? detector : detectorPatterns[detector];
+        return {
+            // Replacing requires a global pattern
+            pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+            validate: detector === 'creditCard'
+                ? (match: string) => passesLuhn(match.replace(/\D/g, ''))
+                : undefined
+        };
+    });
+
+    const replace = (value: string): string => {
+        switch (strategy) {
+            case 'partial':
+                return value.length > 4
+                    ? `${maskChar.repeat(4)}${value.slice(-4)}`
+                    : maskChar.repeat(8);
+            case 'hash':
+                return `sha256:${createHash('sha256').update(value).digest('hex').slice(0, 12)}`;
+            case 'remove':
+                return REMOVED;
+            default:
+                return maskChar.repeat(8);
+        }
+    };
+
+    const redactString = (text: string): string => {
+        let result = text;
+        for (const { pattern, validate } of detectors) {
+            result = result.replace(pattern, match =>
+                !validate || validate(match) ? replace(match.replace(/\s+/g, ' ')) : match
+            );
+        }
+        return result;
+    };
+
+    const isSensitive = (key: string, path: string[]): boolean =>
+        keyMatchers.some(matcher => matcher.test(key)) ||
+        pathMatchers.some(segments =>
+            segments.length === path.length &&
+            segments.every((segment, i) => segment.test(path[i]))
+        );
+
+    const redact = (value: any, path: string[], seen: WeakSet<object>): any => {
+        if (typeof value === 'string') return redactString(value);
+        if (typeof value !== 'object' || value === null) return value;
+
+        // Only plain objects and arrays are walked; other objects keep their identity
+        const isArray = Array.isArray(value);
+        const prototype = Object.getPrototypeOf(value);
+        if (!isArray && prototype !== Object.prototype && prototype !== null) return value;
+
+        if (seen.has(value)) return '[Circular]';
+        seen.add(value);
+
+        const result: any = isArray ? [] : {};
+        for (const [key, child] of Object.entries(value)) {
+            const childPath = [...path, key];
+            if (isSensitive(key, childPath)) {
+                if (strategy !== 'remove' || isArray) {
+                    result[key] = child === null || child === undefined ? child : replace(String(child));
+                }
+            } else {
+                result[key] = redact(child, childPath, seen);
+            }
+        }
+
+        seen.delete(value);
+        return result;
+    };
+
+    return {
+        redactString,
+        redactValue: <T>(value: T): T => redact(value, [], new WeakSet()) as T
+    };
+};
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Sampling and rate limiting
+ * @module Sampling
+ * @description
+ * Decides which entries are kept when sampling, deterministically per
+ * correlation ID so whole requests are kept or dropped together, and limits
+ * how often entries sharing a key are written using token buckets. Entries
+ * suppressed by the rate limiter are counted and reported periodically.
+ */
+
+import { LogEntry, LogSeverity, RateLimitOptions } from '../types';
+
+/**
+ * Token-bucket rate limiter for log entries
+ *
+ * @property configure - Replaces the limits; `false` disables rate limiting
+ * @property take - Consumes a token for the entry, returning false if it must be suppressed
+ * @property report - Reports suppressed counts immediately and stops the summary timer
+ */
+export interface RateLimiter {
+    configure(options: RateLimitOptions | false): void;
+    take(entry: LogEntry): boolean;
+    report(): void;
+}
+
+/** @private Token bucket state of one key */
+interface Bucket {
+    tokens: number;
+    updated: number;
+    suppressed: number;
+}
+
+/**
+ * Maps a string to a stable number in [0, 1) using FNV-1a with a final bit mix
+ *
+ * @param key - Key to hash, such as a correlation ID
+ * @returns Number uniformly distributed over [0, 1)
+ */
+export const hashToUnit = (key: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    // Mix the bits so that short, similar keys spread evenly
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Resolves the sample rate of an entry
+ *
+ * @remarks
+ * Rates given for the log type take precedence over rates for its severity.
+ * Without an explicit rate, `error` and `fatal` entries are always kept and
+ * other entries use the global `sampleRate`.
+ *
+ * @param type - Log type of the entry
+ * @param severity - Severity of the entry
+ * @param sampleRate - Global sample rate
+ * @param sampleRates - Rates by log type or severity
+ * @returns Probability of keeping the entry
+ */
+export const getSampleRate = (
+    type: string,
+    severity: LogSeverity,
+    sampleRate: number,
+    sampleRates: Record<string, number>
+): number =>
+    sampleRates[type] ?? sampleRates[severity] ?? (severity === 'error' || severity === 'fatal' ? 1 : sampleRate);
+
+/**
+ * Decides whether a sampled entry is kept
+ *
+ * @param rate - Probability of keeping the entry
+ * @param correlationId - Correlation ID of the entry; entries sharing one get the same decision
+ * @returns True if the entry is kept
+ */
+export const isSampled = (rate: number, correlationId?: string): boolean => {
+    if (rate >= 1) return true;
+    if (rate <= 0) return false;
+    return (correlationId !== undefined ? hashToUnit(String(correlationId)) : Math.random()) < rate;
+};
+
+/**
+ * Creates a token-bucket rate limiter
+ *
+ * @remarks
+ * Each key gets a bucket of `limit` tokens refilled continuously over
+ * `interval` ms, so bursts of up to `limit` entries pass and longer floods are
+ * throttled to `limit` per `interval`. Entries logged while `onSuppressed`
+ * runs are never limited, so summaries cannot suppress themselves.
+ *
+ * @param options - Initial limits, or `false` to start disabled
+ * @param onSuppressed - Receives the number of suppressed entries per key
+ * @returns Rate limiter
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter({ limit: 10, interval: 1000 }, (key, count) =>
+ *   console.warn(`${count} messages suppressed: ${key}`));
+ * if (limiter.take(entry)) write(entry);
+ * ```
+ */
+export const createRateLimiter = (
+    options: RateLimitOptions | false,
+    onSuppressed: (key: string, count: number) => void
+): RateLimiter => {
+    let config = options;
+    let buckets = new Map<string, Bucket>();
+    let summaryTimer: NodeJS.Timeout | undefined;
+    let reporting = false;
+
+    const getKey = (entry: LogEntry): string =>
+        config && config.key ? config.key(entry) : `${entry.level}:${entry.template ?? entry.message}`;
+
+    const report = (): void => {
+        if (summaryTimer) {
+            clearTimeout(summaryTimer);
+            summaryTimer = undefined;
+        }
+
+        reporting = true;
+        try {
+            for (const [key, bucket] of buckets) {
+                if (bucket.suppressed > 0) {
+                    const count = bucket.suppressed;
+                    bucket.suppressed = 0;
+                    onSuppressed(key, count);
+                }
+            }
+        } finally {
+            reporting = false;
+        }
+
+        // Drop buckets that have refilled completely
+        const now = Date.now();
+        for (const [key, bucket] of buckets) {
+            if (config && now - bucket.updated >= config.interval) buckets.delete(key);
+        }
+    };
+
+    const scheduleReport = (): void => {
+        if (summaryTimer || !config) return;
+        summaryTimer = setTimeout(report, config.summaryInterval ?? config.interval);
+        summaryTimer.unref();
+    };
+
+    return {
+        configure(options: RateLimitOptions | false): void {
+            report();
+            config = options;
+            buckets = new Map();
+        },
+
+        take(entry: LogEntry): boolean {
+            if (!config || reporting) return true;
+
+            const key = getKey(entry);
+            const now = Date.now();
+            let bucket = buckets.get(key);
+            if (!bucket) {
+                bucket = { tokens: config.limit, updated: now, suppressed: 0 };
+                buckets.set(key, bucket);
+            } else {
+                const refill = (now - bucket.updated) * config.limit / config.interval;
+                bucket.tokens = Math.min(config.limit, bucket.tokens + refill);
+                bucket.updated = now;
+            }
+
+            if (bucket.tokens >= 1) {
+                bucket.tokens--;
+                return true;
+            }
+
+            bucket.suppressed++;
+            scheduleReport();
+            return false;
+        },
+
+        report
+    };
+};
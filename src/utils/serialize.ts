@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Safe serialization
+ * @module Serialize
+ * @description
+ * Converts arbitrary values into JSON-safe data so that logging never throws
+ * and never produces unbounded output. Handles circular references, BigInt,
+ * binary data, Maps and Sets, errors and getters that throw, and truncates
+ * deep, long or large values with explicit markers.
+ */
+
+import { ErrorSerializerOptions, serializeError } from './errors';
+
+/**
+ * Serializer configuration
+ *
+ * @property maxDepth - Nesting depth below which objects and arrays are replaced by `[Object]` / `[Array]`
+ * @property maxArrayLength - Items kept per array, Set or Map
+ * @property maxStringLength - Characters kept per string
+ * @property errors - Serialization of errors found in the value
+ */
+export interface SerializeOptions {
+    maxDepth?: number;
+    maxArrayLength?: number;
+    maxStringLength?: number;
+    errors?: ErrorSerializerOptions;
+}
+
+/** @private Bytes shown for binary data */
+const MAX_BYTES_SHOWN = 50;
+
+/**
+ * Describes binary data like `util.inspect` does for Buffers
+ * @private
+ * @param name - Type name
+ * @param bytes - Binary contents
+ * @returns Hex preview such as `<Buffer 68 65 6c 6c 6f>`
+ */
+const formatBytes = (name: string, bytes: Uint8Array): string => {
+    const shown = Array.from(bytes.subarray(0, MAX_BYTES_SHOWN), byte => byte.toString(16).padStart(2, '0'));
+    const more = bytes.length > MAX_BYTES_SHOWN ? ` ... ${bytes.length - MAX_BYTES_SHOWN} more bytes` : '';
+    return `<${name}${shown.length > 0 ? ` ${shown.join(' ')}` : ''}${more}>`;
+};
+
+/**
+ * Describes an exception thrown while reading a value
+ *
+ * @param error - Thrown value
+ * @returns Marker such as `[Throws: Not allowed]`
+ */
+export const describeThrown = (error: unknown): string =>
+    `[Throws: ${error instanceof Error ? error.message : String(error)}]`;
+
+/**
+ * Converts a value into JSON-safe data
+ *
+ * @remarks
+ * - Circular references become `[Circular]`; shared references are kept.
+ * - BigInts become decimal strings, symbols and functions descriptive strings.
+ * - Buffers and other binary data become hex previews, Dates ISO strings,
+ *   Maps objects and Sets arrays. Errors are serialized with `serializeError()`.
+ * - Objects with `toJSON()` are replaced by its result; class instances
+ *   without own properties become their name, e.g. `[Promise]`.
+ * - Properties whose getters throw become `[Throws: message]`.
+ * - Values beyond the limits are truncated with markers such as
+ *   `... 10 more items` and `... [2048 more characters]`.
+ *
+ * @param value - Value to convert
+ * @param options - Serializer configuration
+ * @returns JSON-safe copy of the value
+ *
+ * @example
+ * ```typescript
+ * const a: any = { id: 1n };
+ * a.self = a;
+ * sanitize(a); // { id: '1', self: '[Circular]' }
+ * ```
+ */
+export const sanitize = (value: unknown, options: SerializeOptions = {}): unknown => {
+    const { maxDepth = 10, maxArrayLength = 100, maxStringLength = 10000 } = options;
+    const ancestors = new Set<object>();
+
+    const truncateItems = (items: unknown[], depth: number): unknown[] => {
+        const result = items.slice(0, maxArrayLength).map(item => walk(item, depth + 1));
+        if (items.length > maxArrayLength) result.push(`... ${items.length - maxArrayLength} more items`);
+        return result;
+    };
+
+    const walkObject = (object: object, depth: number): unknown => {
+        if (object instanceof Error) {
+            return walk(serializeError(object, options.errors), depth);
+        }
+        if (depth >= maxDepth) {
+            return Array.isArray(object) ? '[Array]' : '[Object]';
+        }
+        if (Array.isArray(object)) {
+            return truncateItems(object, depth);
+        }
+        if (object instanceof Set) {
+            return truncateItems([...object], depth);
+        }
+        if (object instanceof Map) {
+            const result: Record<string, unknown> = {};
+            let count = 0;
+            for (const [key, item] of object) {
+                if (count++ >= maxArrayLength) {
+                    result['...'] = `${object.size - maxArrayLength} more entries`;
+                    break;
+                }
+                result[typeof key === 'object' && key !== null ? safeStringify(key) : String(key)] = walk(item, depth + 1);
+            }
+            return result;
+        }
+        if (typeof (object as { toJSON?: unknown }).toJSON === 'function') {
+            return walk((object as { toJSON(): unknown }).toJSON(), depth);
+        }
+
+        // Instances without own properties, such as Promises or Blobs, are only named
+        const keys = Object.keys(object);
+        const proto = Object.getPrototypeOf(object);
+        if (keys.length === 0 && proto !== null && proto !== Object.prototype) {
+            return `[${proto.constructor?.name || 'Object'}]`;
+        }
+
+        const result: Record<string, unknown> = {};
+        for (const key of keys) {
+            try {
+                result[key] = walk((object as Record<string, unknown>)[key], depth + 1);
+            } catch (error) {
+                result[key] = describeThrown(error);
+            }
+        }
+        return result;
+    };
+
+    const walk = (value: unknown, depth: number): unknown => {
+        switch (typeof value) {
+            case 'string':
+                return value.length > maxStringLength
+                    ? `${value.slice(0, maxStringLength)}... [${value.length - maxStringLength} more characters]`
+                    : value;
+            case 'bigint':
+                return value.toString();
+            case 'symbol':
+                return value.toString();
+            case 'function':
+                return `[Function: ${value.name || 'anonymous'}]`;
+            case 'object':
+                break;
+            default:
+                return value;
+        }
+        if (value === null) return null;
+
+        if (Buffer.isBuffer(value)) return formatBytes('Buffer', value);
+        if (value instanceof ArrayBuffer) return formatBytes('ArrayBuffer', new Uint8Array(value));
+        if (value instanceof DataView) return formatBytes('DataView', new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        if (ArrayBuffer.isView(value)) return walk(Array.from(value as unknown as ArrayLike<unknown>), depth);
+        if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+        if (value instanceof RegExp) return value.toString();
+
+        if (ancestors.has(value)) return '[Circular]';
+        ancestors.add(value);
+        try {
+            return walkObject(value, depth);
+        } catch (error) {
+            return describeThrown(error);
+        } finally {
+            ancestors.delete(value);
+        }
+    };
+
+    return walk(value, 0);
+};
+
+/**
+ * Stringifies a value as JSON without throwing. Values `JSON.stringify`
+ * rejects, such as circular structures or BigInts, are sanitized first.
+ *
+ * @param value - Value to stringify
+ * @param indentation - Spaces of indentation, none for a single line
+ * @param replacer - Optional `JSON.stringify` replacer
+ * @returns JSON text
+ */
+export const safeStringify = (
+    value: unknown,
+    indentation?: number,
+    replacer?: (key: string, value: any) => any
+): string => {
+    try {
+        return JSON.stringify(value, replacer, indentation);
+    } catch {
+        return JSON.stringify(sanitize(value), replacer, indentation);
+    }
+};
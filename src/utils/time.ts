@@ -1,3 +1,180 @@
+import { TimeFormat } from '../types';
+
+/**
+ * Date components used when rendering token patterns
+ * @private
+ */
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Offset from UTC in minutes */
+  offset: number;
+}
+
+/** @private High-resolution reference point for 'hrtime' timestamps */
+const hrtimeOrigin = process.hrtime.bigint();
+
+/** @private Formatters reused per time zone, as constructing them is costly */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Pads a number with leading zeros to the given width
+ * @private
+ */
+const pad = (value: number, width: number = 2): string =>
+  String(value).padStart(width, '0');
+
+/**
+ * Resolves the date components of a date in a time zone
+ * @private
+ * @param date - Date to break down
+ * @param timeZone - IANA time zone; local time when omitted
+ * @returns The date components
+ */
+const getDateParts = (date: Date, timeZone?: string): DateParts => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+      offset: -date.getTimezoneOffset()
+    };
+  }
+
+  if (timeZone === 'UTC') {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+      offset: 0
+    };
+  }
+
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+
+  const values: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    values[part.type] = Number(part.value);
+  }
+
+  const parts: DateParts = {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour % 24, // Some engines render midnight as 24
+    minute: values.minute,
+    second: values.second,
+    millisecond: date.getUTCMilliseconds(),
+    offset: 0
+  };
+  const zonedTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  parts.offset = Math.round((zonedTime - date.getTime()) / 60000);
+
+  return parts;
+};
+
+/**
+ * Formats a UTC offset in minutes as ±HH:mm
+ * @private
+ */
+const formatOffset = (offset: number): string => {
+  if (offset === 0) return 'Z';
+  const sign = offset > 0 ? '+' : '-';
+  const minutes = Math.abs(offset);
+  return `${sign}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+/**
+ * Formats a date using a token pattern.
+ * 
+ * @description
+ * Supported tokens:
+ * - `YYYY` - four digit year
+ * - `MM` - month (01-12)
+ * - `DD` - day of month (01-31)
+ * - `HH` - hour (00-23)
+ * - `mm` - minute (00-59)
+ * - `ss` - second (00-59)
+ * - `SSS` - millisecond (000-999)
+ * - `Z` - offset from UTC (`Z` or `±HH:mm`)
+ * 
+ * Any other characters are copied as-is.
+ * 
+ * @param date - Date to format
+ * @param pattern - Token pattern, e.g. 'YYYY-MM-DD HH:mm:ss.SSS'
+ * @param timeZone - IANA time zone to render in; local time when omitted
+ * @returns The formatted date string
+ * 
+ * @example
+ * ```typescript
+ * formatDate(new Date(2023, 11, 25, 9), 'YYYY-MM-DD-HH') // "2023-12-25-09"
+ * formatDate(new Date('2023-12-25T12:00:00Z'), 'HH:mm Z', 'America/New_York') // "07:00 -05:00"
+ * ```
+ */
+export const formatDate = (date: Date, pattern: string, timeZone?: string): string => {
+  const parts = getDateParts(date, timeZone);
+
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss|SSS|Z/g, token => {
+    switch (token) {
+      case 'YYYY': return pad(parts.year, 4);
+      case 'MM': return pad(parts.month);
+      case 'DD': return pad(parts.day);
+      case 'HH': return pad(parts.hour);
+      case 'mm': return pad(parts.minute);
+      case 'ss': return pad(parts.second);
+      case 'SSS': return pad(parts.millisecond, 3);
+      default: return formatOffset(parts.offset);
+    }
+  });
+};
+
+/**
+ * Returns the high-resolution time elapsed since the logger was loaded.
+ * 
+ * @returns Milliseconds with nanosecond precision, e.g. "1523.482911"
+ */
+export const getHrtimeOffset = (): string => {
+  const elapsed = process.hrtime.bigint() - hrtimeOrigin;
+  const milliseconds = elapsed / BigInt(1e6);
+  const nanoseconds = elapsed % BigInt(1e6);
+  return `${milliseconds}.${pad(Number(nanoseconds), 6)}`;
+};
+
+/**
+ * Returns the milliseconds elapsed since a `process.hrtime.bigint()` reading.
+ * 
+ * @param start - Reading taken when the measurement started
+ * @returns Milliseconds rounded to microseconds, e.g. 12.345
+ */
+export const getElapsedMs = (start: bigint): number =>
+  Math.round(Number(process.hrtime.bigint() - start) / 1e3) / 1e3;
+
 /**
  * Generates a timestamp string in the specified format.
  * 
@@ -6,19 +183,28 @@
  * - ISO 8601 format (default) - e.g. "2023-12-25T12:00:00.000Z"
  * - UTC format - e.g. "Mon, 25 Dec 2023 12:00:00 GMT" 
  * - UNIX timestamp - Number of seconds since Unix Epoch
+ * - UNIX_MS timestamp - Number of milliseconds since Unix Epoch
+ * - hrtime - High-resolution milliseconds elapsed since the logger was loaded
  * - Locale format - e.g. "12/25/2023, 12:00:00 PM"
+ * - Custom token patterns - e.g. 'YYYY-MM-DD HH:mm:ss.SSS' (see `formatDate()`)
  * 
+ * ISO timestamps and patterns are rendered in `timeZone`, with ISO
+ * timestamps carrying the zone's UTC offset.
  * This function ensures consistent timestamp formatting across the logging system.
  * 
- * @param format - The desired timestamp format ('ISO' | 'UTC' | 'UNIX' | 'locale')
- * @param timeZone - The time zone for locale format (optional)
- * @returns A string representation of the current timestamp in the specified format
+ * @param format - The desired timestamp format or a token pattern
+ * @param timeZone - The time zone for ISO, locale and pattern formats (optional)
+ * @param date - The moment to format (defaults to now)
+ * @returns A string representation of the timestamp in the specified format
  * 
  * @example
  * ```typescript
  * // ISO 8601 format (default)
  * getTimestamp() // "2023-12-25T12:00:00.000Z"
  * 
+ * // ISO 8601 in a time zone
+ * getTimestamp('ISO', 'America/New_York') // "2023-12-25T07:00:00.000-05:00"
+ * 
  * // UTC format
  * getTimestamp('UTC') // "Mon, 25 Dec 2023 12:00:00 GMT"
  * 
@@ -27,23 +213,93 @@
  * 
  * // Locale format
  * getTimestamp('locale', 'America/New_York') // "12/25/2023, 12:00:00 PM"
+ * 
+ * // Custom pattern
+ * getTimestamp('YYYY-MM-DD HH:mm:ss.SSS', 'UTC') // "2023-12-25 12:00:00.000"
  * ```
  */
-export const getTimestamp = (format: string = 'ISO', timeZone?: string): string => {
-  const date = new Date();
-  
+export const getTimestamp = (
+  format: TimeFormat | string = 'ISO',
+  timeZone?: string,
+  date: Date = new Date()
+): string => {
   switch (format) {
     case 'ISO':
-      return date.toISOString();
+      return !timeZone || timeZone === 'UTC' ?
+          date.toISOString() :
+          formatDate(date, 'YYYY-MM-DDTHH:mm:ss.SSSZ', timeZone);
     case 'UTC':
       return date.toUTCString();
     case 'UNIX':
       return Math.floor(date.getTime() / 1000).toString();
+    case 'UNIX_MS':
+      return date.getTime().toString();
+    case 'hrtime':
+      return getHrtimeOffset();
     case 'locale':
       return timeZone ? 
           date.toLocaleString('en-US', { timeZone }) :
           date.toLocaleString();
     default:
-      return date.toISOString();
+      return formatDate(date, format, timeZone);
+  }
+};
+
+
+/** @private Stands in for the milliseconds inside cached timestamp prefixes */
+const MILLISECONDS_PLACEHOLDER = '\u0000';
+
+/**
+ * Creates a timestamp function for a format that is accurate to the
+ * millisecond but avoids re-rendering the full date for every call.
+ * 
+ * @description
+ * The part of the timestamp that changes at most once per second (the date
+ * and time down to the seconds) is rendered once and cached; only the
+ * milliseconds are formatted per call. `UNIX_MS` and `hrtime` timestamps are
+ * cheap to produce and always computed directly.
+ * 
+ * @param format - The desired timestamp format or a token pattern
+ * @param timeZone - The time zone for ISO, locale and pattern formats (optional)
+ * @returns Function formatting a date (defaults to now) as a timestamp
+ * 
+ * @example
+ * ```typescript
+ * const timestamp = createTimestampFormatter('YYYY-MM-DD HH:mm:ss.SSS', 'UTC');
+ * timestamp(); // "2023-12-25 12:00:00.042"
+ * timestamp(); // "2023-12-25 12:00:00.957" (same cached prefix)
+ * ```
+ */
+export const createTimestampFormatter = (
+  format: TimeFormat | string = 'ISO',
+  timeZone?: string
+): (date?: Date) => string => {
+  if (format === 'UNIX_MS' || format === 'hrtime') {
+    return (date: Date = new Date()) => getTimestamp(format, timeZone, date);
   }
-}; 
\ No newline at end of file
+
+  // Second-resolution formats are cached whole
+  const pattern = format === 'ISO'
+    ? 'YYYY-MM-DDTHH:mm:ss.SSSZ'
+    : ['UTC', 'UNIX', 'locale'].includes(format) ? undefined : format;
+  const prefixPattern = pattern?.replace(/SSS/g, MILLISECONDS_PLACEHOLDER);
+
+  let cachedSecond = NaN;
+  let cachedPrefix = '';
+
+  return (date: Date = new Date()) => {
+    const time = date.getTime();
+    const second = Math.floor(time / 1000);
+
+    if (second !== cachedSecond) {
+      cachedSecond = second;
+      cachedPrefix = prefixPattern !== undefined
+        ? formatDate(date, prefixPattern, format === 'ISO' ? timeZone || 'UTC' : timeZone)
+        : getTimestamp(format, timeZone, date);
+    }
+
+    return prefixPattern !== undefined && cachedPrefix.includes(MILLISECONDS_PLACEHOLDER)
+      ? cachedPrefix.split(MILLISECONDS_PLACEHOLDER).join(pad(time - second * 1000, 3))
+      : cachedPrefix;
+  };
+};
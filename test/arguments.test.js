@@ -0,0 +1,22 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { parseArguments } = require('../dist/utils/arguments');
+
+test('interpolates arguments into the template', () => {
+    assert.deepStrictEqual(parseArguments('user %s bought %d items', ['ana', 3, { orderId: 7 }]), {
+        message: 'user ana bought 3 items',
+        template: 'user %s bought %d items',
+        metadata: { orderId: 7 }
+    });
+});
+
+test('keeps a trailing object as metadata when the message contains %', () => {
+    assert.deepStrictEqual(parseArguments('GET /search?q=%d0%b0', [{ status: 200, duration: 12 }]), {
+        message: 'GET /search?q=%d0%b0',
+        metadata: { status: 200, duration: 12 }
+    });
+    assert.deepStrictEqual(parseArguments('Disk 90%full', [{ host: 'db1' }]), {
+        message: 'Disk 90%full',
+        metadata: { host: 'db1' }
+    });
+});